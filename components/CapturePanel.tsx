@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { RecordingFormat } from '../media/recorder';
+
+interface CapturePanelProps {
+  /** Spacetime diagrams are 1D only. */
+  is1D: boolean;
+  webmSupported: boolean;
+  /** Frames captured so far out of `total`; null when not recording. */
+  recording: { format: RecordingFormat; recorded: number; total: number } | null;
+  /** An export is being encoded; its buttons stay disabled until it's saved. */
+  busy: boolean;
+  onSnapshot: (scale: number) => void;
+  onRecord: (format: RecordingFormat, generations: number) => void;
+  onStopRecording: () => void;
+  onSpacetime: (generations: number, cellSize: number) => void;
+}
+
+const SCALES = [1, 2, 4];
+const CELL_SIZES = [1, 2, 4, 8];
+
+const buttonClass = 'flex-1 py-1.5 rounded text-[9px] font-bold border border-white/10 bg-white/5 transition-all hover:bg-white/10 disabled:opacity-20 disabled:pointer-events-none uppercase tracking-wider';
+const optionClass = (active: boolean) =>
+  `px-2 py-1 rounded text-[9px] font-bold border transition-all ${active ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`;
+const numberClass = 'w-16 bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[11px] font-mono text-white outline-none';
+
+/** PNG snapshots of the canvas, recordings of the next N generations, and tall 1D diagrams. */
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  is1D,
+  webmSupported,
+  recording,
+  busy,
+  onSnapshot,
+  onRecord,
+  onStopRecording,
+  onSpacetime,
+}) => {
+  const [scale, setScale] = useState(1);
+  const [format, setFormat] = useState<RecordingFormat>(webmSupported ? 'WebM' : 'GIF');
+  const [generations, setGenerations] = useState(100);
+  const [diagramGenerations, setDiagramGenerations] = useState(2000);
+  const [cellSize, setCellSize] = useState(2);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-bold opacity-40 block uppercase tracking-widest">Capture</label>
+
+      <div className="flex gap-1 items-center">
+        {SCALES.map(s => (
+          <button key={s} onClick={() => setScale(s)} className={optionClass(scale === s)}>
+            {s}x
+          </button>
+        ))}
+        <button className={buttonClass} disabled={busy} onClick={() => onSnapshot(scale)}>
+          Save PNG
+        </button>
+      </div>
+
+      <div className="flex gap-1 items-center">
+        {(['WebM', 'GIF'] as RecordingFormat[]).map(f => (
+          <button
+            key={f}
+            disabled={f === 'WebM' && !webmSupported}
+            onClick={() => setFormat(f)}
+            className={`${optionClass(format === f)} disabled:opacity-20`}
+          >
+            {f}
+          </button>
+        ))}
+        <input
+          type="number"
+          min={1}
+          value={generations}
+          onChange={(e) => setGenerations(Math.max(1, parseInt(e.target.value) || 1))}
+          title="Generations to record"
+          className={numberClass}
+        />
+        {recording ? (
+          <button className={buttonClass} onClick={onStopRecording}>
+            Stop {recording.recorded}/{recording.total}
+          </button>
+        ) : (
+          <button className={buttonClass} disabled={busy} onClick={() => onRecord(format, generations)}>
+            Record
+          </button>
+        )}
+      </div>
+
+      {is1D && (
+        <div className="flex gap-1 items-center">
+          <input
+            type="number"
+            min={1}
+            value={diagramGenerations}
+            onChange={(e) => setDiagramGenerations(Math.max(1, parseInt(e.target.value) || 1))}
+            title="Generations in the diagram"
+            className={numberClass}
+          />
+          {CELL_SIZES.map(s => (
+            <button key={s} onClick={() => setCellSize(s)} className={optionClass(cellSize === s)}>
+              {s}px
+            </button>
+          ))}
+          <button className={buttonClass} disabled={busy} onClick={() => onSpacetime(diagramGenerations, cellSize)}>
+            Diagram
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapturePanel;
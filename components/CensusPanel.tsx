@@ -0,0 +1,54 @@
+import React from 'react';
+import type { CensusCount, CensusView } from '../simulation/protocol';
+
+interface CensusPanelProps {
+  /** The census only runs on the 2D grid. */
+  disabled: boolean;
+  view: CensusView;
+  counts: CensusCount[] | null;
+  onViewChange: (view: CensusView) => void;
+}
+
+const VIEWS: CensusView[] = ['Off', 'Counts', 'Boxes', 'Labels'];
+
+const KIND_COLORS = {
+  StillLife: 'text-fuchsia-400',
+  Oscillator: 'text-yellow-400',
+  Spaceship: 'text-cyan-400',
+};
+
+/** Tallies the objects on the grid by catalog name; unrecognized shapes are grouped as Other. */
+const CensusPanel: React.FC<CensusPanelProps> = ({ disabled, view, counts, onViewChange }) => (
+  <div className={`pt-2 ${disabled ? 'opacity-20 pointer-events-none' : ''}`}>
+    <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Object Census</label>
+    <div className="grid grid-cols-4 gap-1">
+      {VIEWS.map(v => (
+        <button
+          key={v}
+          onClick={() => onViewChange(v)}
+          className={`py-1 rounded text-[9px] font-bold border transition-all uppercase ${view === v ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+        >
+          {v}
+        </button>
+      ))}
+    </div>
+
+    {view !== 'Off' && (
+      <div className="mt-2 space-y-1 text-[10px] font-mono">
+        {counts === null && <p className="text-[9px] text-white/30">Too many cells to survey.</p>}
+        {counts?.length === 0 && <p className="text-[9px] text-white/30">Nothing alive.</p>}
+        {counts?.map(({ entry, count }) => (
+          <div key={entry?.name ?? ''} className="flex justify-between">
+            <span className={entry ? KIND_COLORS[entry.kind] : 'text-white/40'}>
+              {entry ? entry.name : 'Other'}
+              {entry && entry.period > 1 && <span className="text-white/30"> p{entry.period}</span>}
+            </span>
+            <span>{count}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default CensusPanel;
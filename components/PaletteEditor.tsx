@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import type { GridStyle, Palette } from '../types';
+import { BUILTIN_PALETTES, encodePalette, MAX_STOPS, MIN_STOPS, rgbToHex, samplePalette } from '../palettes';
+
+interface PaletteEditorProps {
+  /** Null colors cells from the base hue. */
+  palette: Palette | null;
+  userPalettes: Palette[];
+  background: string;
+  grid: GridStyle;
+  onPaletteChange: (palette: Palette | null) => void;
+  onSave: (palette: Palette) => void;
+  onDelete: (palette: Palette) => void;
+  onBackgroundChange: (color: string) => void;
+  onGridChange: (grid: GridStyle) => void;
+}
+
+const GRID_STYLES: GridStyle[] = ['Gap', 'Lines', 'None'];
+
+const optionClass = (active: boolean) =>
+  `py-1 px-2 rounded text-[9px] font-bold text-left border transition-all truncate ${active ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 opacity-60 hover:opacity-100'}`;
+const buttonClass = 'flex-1 py-1.5 rounded text-[9px] font-bold border border-white/10 bg-white/5 transition-all hover:bg-white/10 disabled:opacity-20 disabled:pointer-events-none uppercase tracking-wider';
+const colorClass = 'w-6 h-5 shrink-0 bg-transparent border border-white/10 rounded cursor-pointer';
+
+const gradientCss = ({ stops }: Palette) =>
+  `linear-gradient(to right, ${[...stops].sort((a, b) => a.at - b.at).map(({ at, color }) => `${color} ${at * 100}%`).join(', ')})`;
+
+/** Gradients that replace the base hue, edited stop by stop, plus the canvas background and cell spacing. */
+const PaletteEditor: React.FC<PaletteEditorProps> = ({
+  palette,
+  userPalettes,
+  background,
+  grid,
+  onPaletteChange,
+  onSave,
+  onDelete,
+  onBackgroundChange,
+  onGridChange,
+}) => {
+  const [name, setName] = useState('');
+  // Palettes from links are fresh objects, so match them by content.
+  const current = palette && encodePalette(palette);
+
+  const setStop = (index: number, stop: Partial<Palette['stops'][number]>) =>
+    palette && onPaletteChange({ ...palette, stops: palette.stops.map((s, i) => (i === index ? { ...s, ...stop } : s)) });
+
+  const addStop = () => {
+    if (!palette) return;
+    // Split the widest gap, in the color the gradient already has there.
+    const sorted = [...palette.stops].sort((a, b) => a.at - b.at);
+    let at = 0.5;
+    let widest = 0;
+    sorted.slice(1).forEach((stop, i) => {
+      if (stop.at - sorted[i].at > widest) {
+        widest = stop.at - sorted[i].at;
+        at = (stop.at + sorted[i].at) / 2;
+      }
+    });
+    onPaletteChange({ ...palette, stops: [...palette.stops, { at, color: rgbToHex(samplePalette(palette, at)) }] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-bold opacity-40 block uppercase tracking-widest">Palette</label>
+      <div className="grid grid-cols-2 gap-1">
+        <button onClick={() => onPaletteChange(null)} className={optionClass(!palette)}>
+          Base Hue
+        </button>
+        {[...BUILTIN_PALETTES, ...userPalettes].map(p => (
+          <div key={`${userPalettes.includes(p) ? 'user' : 'builtin'}:${p.name}`} className="flex">
+            <button onClick={() => onPaletteChange(p)} className={`flex-1 ${optionClass(current === encodePalette(p))}`}>
+              {p.name}
+            </button>
+            {userPalettes.includes(p) && (
+              <button
+                onClick={() => onDelete(p)}
+                title="Remove palette"
+                className="px-1 text-[9px] text-white/30 hover:text-white"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {palette && (
+        <div className="space-y-2">
+          <div className="h-3 rounded border border-white/10" style={{ background: gradientCss(palette) }} />
+          {palette.stops.map((stop, i) => (
+            <div key={i} className="flex gap-2 items-center">
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) => setStop(i, { color: e.target.value })}
+                className={colorClass}
+              />
+              <input
+                type="range" min="0" max="1" step="0.01"
+                value={stop.at}
+                onChange={(e) => setStop(i, { at: parseFloat(e.target.value) })}
+                className="flex-1 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+              />
+              <span className="w-8 text-right text-[10px] font-mono">{Math.round(stop.at * 100)}%</span>
+              <button
+                disabled={palette.stops.length <= MIN_STOPS}
+                onClick={() => onPaletteChange({ ...palette, stops: palette.stops.filter((_, j) => j !== i) })}
+                title="Remove stop"
+                className="px-1 text-[9px] text-white/30 hover:text-white disabled:opacity-20 disabled:pointer-events-none"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <button className={buttonClass} disabled={palette.stops.length >= MAX_STOPS} onClick={addStop}>
+              Add Stop
+            </button>
+          </div>
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={palette.name}
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[11px] text-white outline-none"
+            />
+            <button
+              className={buttonClass}
+              onClick={() => {
+                onSave({ ...palette, name: name.trim() || palette.name });
+                setName('');
+              }}
+            >
+              Save Palette
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 items-center">
+        <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Background</label>
+        <input
+          type="color"
+          value={background}
+          onChange={(e) => onBackgroundChange(e.target.value)}
+          className={colorClass}
+        />
+        <div className="flex-1" />
+        {GRID_STYLES.map(style => (
+          <button
+            key={style}
+            onClick={() => onGridChange(style)}
+            title={style === 'Gap' ? 'A pixel between cells' : style === 'Lines' ? 'Grid lines between cells' : 'Cells touch'}
+            className={`px-2 py-1 rounded text-[9px] font-bold border transition-all ${grid === style ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {style}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditor;
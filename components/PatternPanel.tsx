@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { PATTERN_FORMATS, type PatternFormat } from '../patterns/formats';
+
+interface PatternPanelProps {
+  /** Export and selection only make sense for the 2D grid. */
+  disabled: boolean;
+  message: { text: string; error: boolean } | null;
+  selecting: boolean;
+  hasSelection: boolean;
+  onSelectingChange: (selecting: boolean) => void;
+  onClearSelection: () => void;
+  onImport: (text: string) => void;
+  onExport: (format: PatternFormat, action: 'copy' | 'download') => void;
+}
+
+const PatternPanel: React.FC<PatternPanelProps> = ({
+  disabled,
+  message,
+  selecting,
+  hasSelection,
+  onSelectingChange,
+  onClearSelection,
+  onImport,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<PatternFormat>('RLE');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = 'flex-1 py-1.5 rounded text-[9px] font-bold border border-white/10 bg-white/5 transition-all hover:bg-white/10 disabled:opacity-20 disabled:pointer-events-none uppercase tracking-wider';
+
+  return (
+    <div className="pt-2">
+      <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Pattern Exchange</label>
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          <button className={buttonClass} onClick={() => fileRef.current?.click()}>Open File</button>
+          <button
+            className={buttonClass}
+            onClick={async () => onImport(await navigator.clipboard.readText())}
+          >
+            Paste
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".rle,.cells,.lif,.life,.txt"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(await file.text());
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex gap-1 bg-white/5 p-1 rounded-lg">
+          {PATTERN_FORMATS.map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              className={`flex-1 py-1 rounded text-[9px] font-bold transition-all ${format === f ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/60'}`}
+            >
+              {f}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1">
+          <button
+            disabled={disabled}
+            className={`${buttonClass} ${selecting ? 'bg-cyan-500/20 border-cyan-400/40 text-cyan-300' : ''}`}
+            onClick={() => onSelectingChange(!selecting)}
+          >
+            {selecting ? 'Drag Region' : 'Select'}
+          </button>
+          {hasSelection && (
+            <button className={buttonClass} onClick={onClearSelection}>Clear Sel.</button>
+          )}
+          <button disabled={disabled} className={buttonClass} onClick={() => onExport(format, 'copy')}>Copy</button>
+          <button disabled={disabled} className={buttonClass} onClick={() => onExport(format, 'download')}>Save</button>
+        </div>
+
+        <p className={`text-[9px] leading-relaxed ${message?.error ? 'text-red-400' : 'text-white/30'}`}>
+          {message?.text ?? 'Paste or drop RLE, .cells or Life 1.06 anywhere to load it into 2D mode.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PatternPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ROW_SEED_KINDS, type RowSeed } from '../engine';
+
+interface RowSeedEditorProps {
+  seed: RowSeed;
+  onChange: (seed: RowSeed) => void;
+}
+
+/** Initial row options for 1D mode; drawn rows are painted straight onto the canvas. */
+const RowSeedEditor: React.FC<RowSeedEditorProps> = ({ seed, onChange }) => (
+  <div className="space-y-3">
+    <label className="text-[10px] font-bold opacity-40 block uppercase tracking-widest">Initial Row</label>
+    <div className="grid grid-cols-4 gap-1">
+      {ROW_SEED_KINDS.map(kind => (
+        <button
+          key={kind}
+          onClick={() => onChange({ ...seed, kind })}
+          className={`py-1 rounded text-[9px] font-bold border transition-all uppercase ${seed.kind === kind ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+        >
+          {kind}
+        </button>
+      ))}
+    </div>
+
+    {seed.kind === 'Random' && (
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Density</label>
+          <span className="text-[10px] font-mono">{Math.round(seed.density * 100)}%</span>
+        </div>
+        <input 
+          type="range" min="0.01" max="1" step="0.01" 
+          value={seed.density}
+          onChange={(e) => onChange({ ...seed, density: parseFloat(e.target.value) })}
+          className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+        />
+      </div>
+    )}
+
+    {seed.kind === 'Pattern' && (
+      <input
+        type="text"
+        inputMode="numeric"
+        spellCheck={false}
+        value={seed.pattern}
+        onChange={(e) => onChange({ ...seed, pattern: e.target.value.replace(/\D/g, '') })}
+        placeholder="1101"
+        className="w-full bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[11px] font-mono text-white outline-none"
+      />
+    )}
+
+    {seed.kind === 'Drawn' && (
+      <div className="flex justify-between items-center">
+        <p className="text-[9px] text-white/30 leading-relaxed">Click or drag on the canvas to paint the first row.</p>
+        <button
+          onClick={() => onChange({ ...seed, drawn: [] })}
+          className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter shrink-0 ml-2"
+        >
+          Clear
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+export default RowSeedEditor;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { formatRule, parseRule, type RuleSpec } from '../engine';
+
+interface RuleEditorProps {
+  rule: RuleSpec;
+  onChange: (rule: RuleSpec) => void;
+}
+
+/** Free-text rulestring field; keeps the user's draft while it's being typed or is invalid. */
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    try {
+      const spec = parseRule(text);
+      setError(null);
+      onChange(spec);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div>
+      <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Rulestring</label>
+      <input
+        type="text"
+        spellCheck={false}
+        value={draft ?? formatRule(rule)}
+        onChange={(e) => handleChange(e.target.value)}
+        onBlur={() => { if (!error) setDraft(null); }}
+        placeholder="B3/S23"
+        className={`w-full bg-white/5 border rounded px-2 py-1 text-[11px] font-mono text-white outline-none transition-all ${error ? 'border-red-500/60' : 'border-white/10 focus:border-white/30'}`}
+      />
+      {error && <p className="text-[9px] text-red-400 mt-1 leading-relaxed">{error}</p>}
+    </div>
+  );
+};
+
+export default RuleEditor;
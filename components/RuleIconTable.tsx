@@ -0,0 +1,52 @@
+import React from 'react';
+import { neighborhoodCells, ruleTable, type WolframRule } from '../engine';
+import { paletteColor } from '../palettes';
+import { stateHue1D } from '../simulation/renderer';
+import type { Palette } from '../types';
+
+interface RuleIconTableProps {
+  rule: WolframRule;
+  hue: number;
+  /** Null colors states from the base hue. */
+  palette: Palette | null;
+}
+
+/** Colored by state the way the canvas draws 1D rows in Classic mode. */
+const Cell: React.FC<{ state: number; rule: WolframRule; hue: number; palette: Palette | null }> = ({ state, rule, hue, palette }) => (
+  <div
+    className={`w-1.5 h-1.5 ${state ? '' : 'bg-white/10'}`}
+    style={
+      state
+        ? { backgroundColor: palette ? paletteColor(palette, state / (rule.colors - 1), 1) : `hsl(${stateHue1D(hue, state)}, 80%, 60%)` }
+        : undefined
+    }
+  />
+);
+
+/**
+ * Every neighborhood with the state it produces, in Wolfram's order (highest
+ * index first). Totalistic rules list neighborhood sums instead of patterns.
+ */
+const RuleIconTable: React.FC<RuleIconTableProps> = ({ rule, hue, palette }) => {
+  const table = ruleTable(rule);
+  const indices = Array.from(table, (_, i) => table.length - 1 - i);
+
+  return (
+    <div className="flex flex-wrap gap-x-2 gap-y-1.5 max-h-40 overflow-y-auto py-1">
+      {indices.map(i => (
+        <div key={i} className="flex flex-col items-center gap-0.5" title={rule.totalistic ? `sum ${i}` : undefined}>
+          {rule.totalistic ? (
+            <span className="text-[8px] font-mono leading-none text-white/40">{i}</span>
+          ) : (
+            <div className="flex gap-px">
+              {neighborhoodCells(rule, i).map((state, j) => <Cell key={j} state={state} rule={rule} hue={hue} palette={palette} />)}
+            </div>
+          )}
+          <Cell state={table[i]} rule={rule} hue={hue} palette={palette} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RuleIconTable;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ageBucketLabel, describeSettled, type GridStats, type Settled, type StatsSample } from '../engine';
+
+interface StatsPanelProps {
+  stats: GridStats | null;
+  /** Verdict of the cycle detector, shown above the counts. */
+  settled: Settled | null;
+  samples: StatsSample[];
+  onExport: () => void;
+}
+
+const SPARK_WIDTH = 180;
+const SPARK_HEIGHT = 36;
+
+/** Population polyline scaled to the samples' own range. */
+const Sparkline: React.FC<{ samples: StatsSample[] }> = ({ samples }) => {
+  if (samples.length < 2) return <div style={{ height: SPARK_HEIGHT }} />;
+  const values = samples.map(s => s.population);
+  const min = Math.min(...values);
+  const span = Math.max(1, Math.max(...values) - min);
+  const points = values
+    .map((v, i) => `${((i / (values.length - 1)) * SPARK_WIDTH).toFixed(1)},${(SPARK_HEIGHT - ((v - min) / span) * SPARK_HEIGHT).toFixed(1)}`)
+    .join(' ');
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="block">
+      <polyline points={points} fill="none" stroke="rgb(34 211 238)" strokeWidth="1" />
+    </svg>
+  );
+};
+
+/** Live counts for the current generation, the age histogram and a population sparkline. */
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats, settled, samples, onExport }) => {
+  if (!stats) return null;
+  const { population, births, deaths, density, ages, bounds } = stats;
+  const peak = Math.max(1, ...ages);
+
+  const row = (label: string, value: string) => (
+    <div className="flex justify-between gap-4">
+      <span className="text-white/40">{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/10 text-[9px] font-mono text-white/70 uppercase space-y-1" style={{ width: SPARK_WIDTH }}>
+      {settled && <div className="text-cyan-400 normal-case">{describeSettled(settled)}</div>}
+      {row('Population', population.toLocaleString())}
+      {row('Births / Deaths', births === null || deaths === null ? '—' : `+${births} / -${deaths}`)}
+      {row('Density', `${(density * 100).toFixed(1)}%`)}
+      {row('Bounds', bounds ? `${bounds.width}x${bounds.height} @ ${bounds.x},${bounds.y}` : '—')}
+
+      {ages.length > 0 && (
+        <div className="pt-1">
+          <div className="text-white/40 mb-1">Age</div>
+          <div className="flex items-end gap-[2px] h-8">
+            {ages.map((count, bucket) => (
+              <div
+                key={bucket}
+                className="flex-1 bg-white/40"
+                style={{ height: `${(count / peak) * 100}%` }}
+                title={`Age ${ageBucketLabel(bucket)}: ${count}`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-[2px] text-[7px] text-white/30">
+            {ages.map((_, bucket) => <span key={bucket} className="flex-1 text-center">{ageBucketLabel(bucket)}</span>)}
+          </div>
+        </div>
+      )}
+
+      <div className="pt-1">
+        <Sparkline samples={samples} />
+      </div>
+      <button
+        onClick={onExport}
+        disabled={samples.length === 0}
+        className="pointer-events-auto text-[9px] font-bold opacity-60 hover:opacity-100 disabled:opacity-20 uppercase tracking-tighter"
+      >
+        Export CSV
+      </button>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+
+interface TimelineBarProps {
+  generation: number;
+  /** Oldest and newest generations the history still holds. */
+  first: number;
+  last: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** 1D has no recorded history, only a step forward. */
+  forwardOnly: boolean;
+  onStep: (delta: number) => void;
+  onSeek: (generation: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/** Single-stepping, undo/redo and a scrubber over the recorded generations. */
+const TimelineBar: React.FC<TimelineBarProps> = ({
+  generation,
+  first,
+  last,
+  canUndo,
+  canRedo,
+  forwardOnly,
+  onStep,
+  onSeek,
+  onUndo,
+  onRedo,
+}) => {
+  const [target, setTarget] = useState('');
+
+  const buttonClass = 'px-2 py-1 rounded text-[9px] font-bold border border-white/10 bg-white/5 transition-all hover:bg-white/10 disabled:opacity-20 disabled:pointer-events-none uppercase tracking-wider';
+
+  const jump = () => {
+    const value = parseInt(target, 10);
+    if (Number.isFinite(value) && value >= 0) onSeek(value);
+    setTarget('');
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-6 py-2 border-t border-white/5">
+      <button className={buttonClass} disabled={!canUndo} onClick={onUndo} title="Undo (Ctrl+Z)">Undo</button>
+      <button className={buttonClass} disabled={!canRedo} onClick={onRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+      <button className={buttonClass} disabled={forwardOnly || generation <= first} onClick={() => onStep(-1)}>◀ Step</button>
+      <button className={buttonClass} onClick={() => onStep(1)}>Step ▶</button>
+
+      {forwardOnly ? (
+        <div className="flex-1" />
+      ) : (
+        <>
+          <span className="text-[9px] font-mono text-white/40 w-10 text-right">{first}</span>
+          <input
+            type="range" min={first} max={Math.max(last, generation)} step="1"
+            value={generation}
+            onChange={(e) => onSeek(parseInt(e.target.value))}
+            className="flex-1 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+          />
+          <span className="text-[9px] font-mono text-white/40 w-10">{last}</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={target}
+            onChange={(e) => setTarget(e.target.value.replace(/\D/g, ''))}
+            onKeyDown={(e) => e.key === 'Enter' && jump()}
+            placeholder="Gen"
+            className="w-16 bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[10px] font-mono text-white outline-none"
+          />
+          <button className={buttonClass} disabled={!target} onClick={jump}>Jump</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineBar;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import type { Tool } from '../types';
+import type { LibraryEntry, Orientation } from '../patterns/library';
+
+interface ToolPanelProps {
+  /** Tools and stamps only work on the 2D grid. */
+  disabled: boolean;
+  tool: Tool;
+  brushSize: number;
+  library: LibraryEntry[];
+  stamp: LibraryEntry;
+  orientation: Orientation;
+  hasSelection: boolean;
+  /** Set when the stamp was made for another rule than the current one. */
+  stampRule: string | null;
+  onToolChange: (tool: Tool) => void;
+  onBrushSizeChange: (size: number) => void;
+  onStampChange: (entry: LibraryEntry) => void;
+  onOrientationChange: (orientation: Orientation) => void;
+  onSaveSelection: (name: string) => void;
+  onDelete: (entry: LibraryEntry) => void;
+  onUseStampRule: () => void;
+}
+
+const TOOLS: Tool[] = ['Toggle', 'Draw', 'Erase', 'Rect', 'Spray', 'Stamp'];
+
+/** Canvas tools, and the pattern library the stamp tool places from. */
+const ToolPanel: React.FC<ToolPanelProps> = ({
+  disabled,
+  tool,
+  brushSize,
+  library,
+  stamp,
+  orientation,
+  hasSelection,
+  stampRule,
+  onToolChange,
+  onBrushSizeChange,
+  onStampChange,
+  onOrientationChange,
+  onSaveSelection,
+  onDelete,
+  onUseStampRule,
+}) => {
+  const [name, setName] = useState('');
+
+  const buttonClass = 'flex-1 py-1.5 rounded text-[9px] font-bold border border-white/10 bg-white/5 transition-all hover:bg-white/10 disabled:opacity-20 disabled:pointer-events-none uppercase tracking-wider';
+
+  return (
+    <div className={`pt-2 space-y-3 ${disabled ? 'opacity-20 pointer-events-none' : ''}`}>
+      <label className="text-[10px] font-bold opacity-40 block uppercase tracking-widest">Tools</label>
+      <div className="grid grid-cols-6 gap-1">
+        {TOOLS.map(t => (
+          <button
+            key={t}
+            onClick={() => onToolChange(t)}
+            className={`py-1 rounded text-[9px] font-bold border transition-all uppercase ${tool === t ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+
+      {(tool === 'Draw' || tool === 'Erase' || tool === 'Spray') && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Brush Size</label>
+            <span className="text-[10px] font-mono">{brushSize}</span>
+          </div>
+          <input
+            type="range" min="1" max="15" step="1"
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(parseInt(e.target.value))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+          />
+        </div>
+      )}
+
+      {tool === 'Rect' && (
+        <p className="text-[9px] text-white/30 leading-relaxed">Drag a rectangle on the canvas to fill it with live cells.</p>
+      )}
+
+      {tool === 'Stamp' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-1">
+            {library.map(entry => (
+              <div key={`${entry.builtin}:${entry.name}`} className="flex">
+                <button
+                  onClick={() => onStampChange(entry)}
+                  className={`flex-1 py-1 px-2 rounded text-[9px] font-bold text-left border transition-all truncate ${entry === stamp ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 opacity-60 hover:opacity-100'}`}
+                >
+                  {entry.name}
+                </button>
+                {!entry.builtin && (
+                  <button
+                    onClick={() => onDelete(entry)}
+                    title="Remove from library"
+                    className="px-1 text-[9px] text-white/30 hover:text-white"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <button
+              className={buttonClass}
+              onClick={() => onOrientationChange({ ...orientation, rotation: (orientation.rotation + 1) % 4 })}
+            >
+              Rotate {orientation.rotation * 90}°
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => onOrientationChange({ ...orientation, flipped: !orientation.flipped })}
+            >
+              {orientation.flipped ? 'Flipped' : 'Flip'}
+            </button>
+          </div>
+          {stampRule && (
+            <div className="flex justify-between items-center">
+              <p className="text-[9px] text-amber-400/80 leading-relaxed">Made for {stampRule}.</p>
+              <button
+                onClick={onUseStampRule}
+                className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter shrink-0 ml-2"
+              >
+                Use Rule
+              </button>
+            </div>
+          )}
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[11px] text-white outline-none"
+            />
+            <button
+              className={buttonClass}
+              disabled={!hasSelection || !name.trim()}
+              title={hasSelection ? undefined : 'Select a region first'}
+              onClick={() => {
+                onSaveSelection(name.trim());
+                setName('');
+              }}
+            >
+              Save Selection
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolPanel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+  MAX_COLORS_1D,
+  MAX_RADIUS_1D,
+  MAX_TABLE_SIZE,
+  ruleCount,
+  ruleTableSize,
+  type WolframRule,
+} from '../engine';
+
+interface WolframRuleEditorProps {
+  rule: WolframRule;
+  onChange: (rule: WolframRule) => void;
+}
+
+/** Codes up to this many get a slider as well as the text field. */
+const MAX_SLIDER_CODES = 65536n;
+
+const randomCode = (count: bigint) => {
+  let code = 0n;
+  for (let limit = 1n; limit < count; limit <<= 32n) {
+    code = (code << 32n) | BigInt(Math.floor(Math.random() * 2 ** 32));
+  }
+  return code % count;
+};
+
+/** Family pickers (colors, radius, totalistic) plus the Wolfram code, which can run past 2^53. */
+const WolframRuleEditor: React.FC<WolframRuleEditorProps> = ({ rule, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const count = ruleCount(rule);
+  const tableSize = ruleTableSize(rule);
+
+  /** Generals past MAX_TABLE_SIZE neighborhoods fall back to totalistic; codes wrap into the new range. */
+  const setFamily = (family: Partial<Omit<WolframRule, 'code'>>) => {
+    const next = { ...rule, ...family };
+    if (ruleTableSize({ ...next, totalistic: false }) > MAX_TABLE_SIZE) next.totalistic = true;
+    next.code = rule.code % ruleCount(next);
+    setDraft(null);
+    setError(null);
+    onChange(next);
+  };
+
+  const handleCode = (text: string) => {
+    setDraft(text);
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      setError('Code must be a whole number.');
+    } else if (BigInt(trimmed) >= count) {
+      setError(`Codes for this family run from 0 to ${rule.colors}^${tableSize} - 1.`);
+    } else {
+      setError(null);
+      onChange({ ...rule, code: BigInt(trimmed) });
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex-1 py-1 rounded text-[9px] font-bold border transition-all disabled:opacity-20 disabled:pointer-events-none ${active ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Colors (k)</label>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_COLORS_1D - 1 }, (_, i) => i + 2).map(k => (
+              <button key={k} onClick={() => setFamily({ colors: k })} className={buttonClass(rule.colors === k)}>{k}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1">
+          <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Radius (r)</label>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_RADIUS_1D }, (_, i) => i + 1).map(r => (
+              <button key={r} onClick={() => setFamily({ radius: r })} className={buttonClass(rule.radius === r)}>{r}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="flex gap-1">
+        <button onClick={() => setFamily({ totalistic: false })} disabled={ruleTableSize({ ...rule, totalistic: false }) > MAX_TABLE_SIZE} className={buttonClass(!rule.totalistic)}>
+          GENERAL
+        </button>
+        <button onClick={() => setFamily({ totalistic: true })} className={buttonClass(rule.totalistic)}>
+          TOTALISTIC
+        </button>
+      </div>
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Code (0-{rule.colors}^{tableSize})</label>
+          <button
+            onClick={() => {
+              setDraft(null);
+              setError(null);
+              onChange({ ...rule, code: randomCode(count) });
+            }}
+            className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter"
+          >
+            Random
+          </button>
+        </div>
+        {count <= MAX_SLIDER_CODES && (
+          <input 
+            type="range" min="0" max={Number(count - 1n)} step="1" 
+            value={Number(rule.code)}
+            onChange={(e) => {
+              setDraft(null);
+              setError(null);
+              onChange({ ...rule, code: BigInt(e.target.value) });
+            }}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-400 mb-2"
+          />
+        )}
+        <input
+          type="text"
+          inputMode="numeric"
+          spellCheck={false}
+          value={draft ?? rule.code.toString()}
+          onChange={(e) => handleCode(e.target.value)}
+          onBlur={() => { if (!error) setDraft(null); }}
+          className={`w-full bg-white/5 border rounded px-2 py-1 text-[11px] font-mono text-white outline-none transition-all break-all ${error ? 'border-red-500/60' : 'border-white/10 focus:border-white/30'}`}
+        />
+        {error && <p className="text-[9px] text-red-400 mt-1 leading-relaxed">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default WolframRuleEditor;
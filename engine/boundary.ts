@@ -0,0 +1,49 @@
+// --- Boundary Conditions ---
+
+/**
+ * What lies beyond the grid edge:
+ * - Torus: opposite edges are joined.
+ * - Dead / Alive: a fixed border of 0 or 1 cells.
+ * - Mirror: the grid is reflected across each edge.
+ * - Klein: left/right wrap as a torus, top/bottom wrap with a horizontal flip.
+ *   In 1D there is no second axis, so Klein behaves like Torus.
+ */
+export type Boundary = 'Torus' | 'Dead' | 'Alive' | 'Mirror' | 'Klein';
+
+export const BOUNDARIES: Boundary[] = ['Torus', 'Dead', 'Alive', 'Mirror', 'Klein'];
+
+/** Returned by the resolvers for ghost cells of a fixed border. */
+export const OUTSIDE_DEAD = -1;
+export const OUTSIDE_ALIVE = -2;
+
+const outside = (boundary: Boundary) => (boundary === 'Alive' ? OUTSIDE_ALIVE : OUTSIDE_DEAD);
+
+/** Maps a 1D coordinate onto [0, n), or to OUTSIDE_DEAD / OUTSIDE_ALIVE. */
+export const resolveIndex = (i: number, n: number, boundary: Boundary): number => {
+  if (i >= 0 && i < n) return i;
+  switch (boundary) {
+    case 'Dead':
+    case 'Alive':
+      return outside(boundary);
+    case 'Mirror':
+      return i < 0 ? Math.min(-i - 1, n - 1) : Math.max(2 * n - i - 1, 0);
+    default:
+      return ((i % n) + n) % n;
+  }
+};
+
+/** Maps a 2D coordinate onto a row-major cell index, or to OUTSIDE_DEAD / OUTSIDE_ALIVE. */
+export const resolveCell = (x: number, y: number, cols: number, rows: number, boundary: Boundary): number => {
+  if (boundary === 'Klein') {
+    const wrappedX = ((x % cols) + cols) % cols;
+    // Each vertical wrap flips the row left-to-right.
+    const turns = Math.floor(y / rows);
+    const flippedX = turns % 2 === 0 ? wrappedX : cols - 1 - wrappedX;
+    return (y - turns * rows) * cols + flippedX;
+  }
+  const rx = resolveIndex(x, cols, boundary);
+  const ry = resolveIndex(y, rows, boundary);
+  if (rx < 0) return rx;
+  if (ry < 0) return ry;
+  return ry * cols + rx;
+};
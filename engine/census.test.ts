@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalKey, findObjects, gridCells, takeCensus, type Cells } from './census';
+
+const LIFE = { birth: [3], survival: [2, 3] };
+
+const parseRows = (rows: string[], dx = 0, dy = 0): Cells =>
+  rows.flatMap((row, y) => Array.from(row).flatMap((c, x) => (c === 'O' ? [[x + dx, y + dy] as [number, number]] : [])));
+
+const BLOCK = ['OO', 'OO'];
+const GLIDER = ['.O.', '..O', 'OOO'];
+
+const names = (cells: Cells) => takeCensus(cells, LIFE)?.map(object => object.entry?.name ?? null);
+
+describe('census', () => {
+  it('names a block and a blinker', () => {
+    expect(takeCensus(parseRows(BLOCK, 5, 5), LIFE)).toEqual([
+      { entry: { name: 'Block', kind: 'StillLife', period: 1 }, x: 5, y: 5, width: 2, height: 2, population: 4 },
+    ]);
+    expect(takeCensus(parseRows(['O', 'O', 'O']), LIFE)?.[0].entry).toEqual({ name: 'Blinker', kind: 'Oscillator', period: 2 });
+  });
+
+  it('gives a glider the same key in all 8 orientations', () => {
+    const glider = parseRows(GLIDER);
+    const orientations: Cells[] = [
+      glider,
+      glider.map(([x, y]) => [-x, y]),
+      glider.map(([x, y]) => [x, -y]),
+      glider.map(([x, y]) => [-x, -y]),
+      glider.map(([x, y]) => [y, x]),
+      glider.map(([x, y]) => [-y, x]),
+      glider.map(([x, y]) => [y, -x]),
+      glider.map(([x, y]) => [-y, -x]),
+    ];
+    expect(new Set(orientations.map(canonicalKey)).size).toBe(1);
+    orientations.forEach(cells => expect(names(cells)).toEqual(['Glider']));
+  });
+
+  it('joins cells two apart and separates cells three apart', () => {
+    expect(findObjects([...parseRows(BLOCK), ...parseRows(BLOCK, 3, 0)])).toHaveLength(1);
+    expect(names([...parseRows(BLOCK), ...parseRows(BLOCK, 4, 0)])).toEqual(['Block', 'Block']);
+    expect(names([...parseRows(BLOCK), ...parseRows(BLOCK, 4, 4)])).toEqual(['Block', 'Block']);
+  });
+
+  it('keeps no labels from an earlier, larger pass', () => {
+    expect(findObjects([[0, 0], [40, 40], [80, 3]])).toHaveLength(3);
+    const objects = findObjects(parseRows(BLOCK));
+    expect(objects?.map(object => canonicalKey(object))).toEqual([canonicalKey(parseRows(BLOCK))]);
+  });
+
+  it('leaves decaying Generations states out of objects', () => {
+    // A block in state 1 with a state-2 trail right beside it.
+    const grid = Uint8Array.from([1, 1, 2, 0, 1, 1, 2, 0, 0, 0, 0, 0]);
+    expect(gridCells(grid, 4)).toHaveLength(6);
+    const live = gridCells(grid, 4, true);
+    expect(live).toEqual([[0, 0], [1, 0], [0, 1], [1, 1]]);
+    expect(names(live)).toEqual(['Block']);
+  });
+});
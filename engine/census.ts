@@ -0,0 +1,248 @@
+// --- Object census: split live cells into objects and name the known ones ---
+
+import type { SettledKind } from './detect';
+import { createLifeEngine, emptyGrid, type LifeRule } from './life';
+import { formatRule } from './rulestring';
+import { MOORE } from './neighborhood';
+
+export type Cells = [number, number][];
+
+export interface CatalogEntry {
+  name: string;
+  kind: Exclude<SettledKind, 'Extinct'>;
+  period: number;
+}
+
+export interface CensusObject {
+  /** Null for shapes that aren't in the catalog. */
+  entry: CatalogEntry | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  population: number;
+}
+
+/** Catalog objects never grow past this in any phase. */
+export const MAX_CATALOG_POPULATION = 128;
+
+/** Cells closer than this share a neighbor, so they interact and belong to the same object. */
+const REACH = 2;
+
+const topLeft = (cells: Cells): [number, number] => [
+  cells.reduce((min, [x]) => Math.min(min, x), Infinity),
+  cells.reduce((min, [, y]) => Math.min(min, y), Infinity),
+];
+
+/** Population and bounding box size, unchanged by rotation; cheap to rule out most non-matches with. */
+const footprint = (population: number, width: number, height: number) =>
+  `${population}:${Math.min(width, height)}x${Math.max(width, height)}`;
+
+const boundsOf = (cells: Cells) => {
+  let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+  cells.forEach(([x, y]) => {
+    x0 = Math.min(x0, x);
+    y0 = Math.min(y0, y);
+    x1 = Math.max(x1, x);
+    y1 = Math.max(y1, y);
+  });
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+/**
+ * Live cells of a row-major grid. Generations cells count only in state 1:
+ * the decaying states after it are trails, not part of any object.
+ */
+export const gridCells = (grid: ArrayLike<number>, cols: number, generations = false): Cells => {
+  const cells: Cells = [];
+  for (let i = 0; i < grid.length; i++) {
+    if (generations ? grid[i] === 1 : grid[i] > 0) cells.push([i % cols, (i - (i % cols)) / cols]);
+  }
+  return cells;
+};
+
+/** Labels from the last pass, kept so a census every step doesn't allocate a box-sized array each time. */
+let scratch = new Int32Array(0);
+
+/**
+ * Groups live cells into objects. Cells within two of each other are joined,
+ * so oscillator phases that briefly fall apart (toad, beacon) stay whole.
+ * Returns null when the cells spread over more than `maxArea` cells.
+ */
+export const findObjects = (cells: Cells, maxArea = 1 << 24): Cells[] | null => {
+  if (cells.length === 0) return [];
+  const { x: x0, y: y0, width: cols, height: rows } = boundsOf(cells);
+  if (cols * rows > maxArea) return null;
+
+  // -1 marks an unvisited live cell, 0 an empty one; labels then count up from 1.
+  if (scratch.length < cols * rows) scratch = new Int32Array(cols * rows);
+  const labels = scratch.subarray(0, cols * rows);
+  labels.fill(0);
+  cells.forEach(([x, y]) => (labels[(y - y0) * cols + (x - x0)] = -1));
+
+  const objects: Cells[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== -1) continue;
+    const object: Cells = [];
+    labels[start] = objects.length + 1;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const cx = i % cols;
+      const cy = (i - cx) / cols;
+      object.push([cx + x0, cy + y0]);
+      for (let dy = -REACH; dy <= REACH; dy++) {
+        const y = cy + dy;
+        if (y < 0 || y >= rows) continue;
+        for (let dx = -REACH; dx <= REACH; dx++) {
+          const x = cx + dx;
+          if (x < 0 || x >= cols || labels[y * cols + x] !== -1) continue;
+          labels[y * cols + x] = objects.length + 1;
+          stack.push(y * cols + x);
+        }
+      }
+    }
+    objects.push(object);
+  }
+  return objects;
+};
+
+const TRANSFORMS: ((x: number, y: number) => [number, number])[] = [
+  (x, y) => [x, y],
+  (x, y) => [-x, y],
+  (x, y) => [x, -y],
+  (x, y) => [-x, -y],
+  (x, y) => [y, x],
+  (x, y) => [-y, x],
+  (x, y) => [y, -x],
+  (x, y) => [-y, -x],
+];
+
+/** The same key for every translation of a shape. */
+const shapeKey = (cells: Cells) => {
+  const [mx, my] = topLeft(cells);
+  return cells
+    .map(([x, y]) => [x - mx, y - my])
+    .sort((p, q) => p[1] - q[1] || p[0] - q[0])
+    .join(';');
+};
+
+/** The same key for every rotation, reflection and translation of a shape. */
+export const canonicalKey = (cells: Cells) =>
+  TRANSFORMS.map(transform => shapeKey(cells.map(([x, y]) => transform(x, y))))
+    .reduce((min, key) => (key < min ? key : min));
+
+// --- Catalog ---
+
+/** One phase of each known object, as plaintext rows. Objects must stay in one piece through every phase. */
+const CATALOG_SEEDS: { name: string; rows: string[] }[] = [
+  { name: 'Block', rows: ['OO', 'OO'] },
+  { name: 'Beehive', rows: ['.OO.', 'O..O', '.OO.'] },
+  { name: 'Loaf', rows: ['.OO.', 'O..O', '.O.O', '..O.'] },
+  { name: 'Boat', rows: ['OO.', 'O.O', '.O.'] },
+  { name: 'Ship', rows: ['OO.', 'O.O', '.OO'] },
+  { name: 'Tub', rows: ['.O.', 'O.O', '.O.'] },
+  { name: 'Pond', rows: ['.OO.', 'O..O', 'O..O', '.OO.'] },
+  { name: 'Blinker', rows: ['OOO'] },
+  { name: 'Toad', rows: ['.OOO', 'OOO.'] },
+  { name: 'Beacon', rows: ['OO..', 'OO..', '..OO', '..OO'] },
+  {
+    name: 'Pulsar',
+    rows: [
+      '..OOO...OOO..',
+      '.............',
+      'O....O.O....O',
+      'O....O.O....O',
+      'O....O.O....O',
+      '..OOO...OOO..',
+      '.............',
+      '..OOO...OOO..',
+      'O....O.O....O',
+      'O....O.O....O',
+      'O....O.O....O',
+      '.............',
+      '..OOO...OOO..',
+    ],
+  },
+  { name: 'Glider', rows: ['.O.', '..O', 'OOO'] },
+  { name: 'LWSS', rows: ['.O..O', 'O....', 'O...O', 'OOOO.'] },
+  { name: 'MWSS', rows: ['...O..', '.O...O', 'O.....', 'O....O', 'OOOOO.'] },
+  { name: 'HWSS', rows: ['...OO..', '.O....O', 'O......', 'O.....O', 'OOOOOO.'] },
+];
+
+const MAX_CATALOG_PERIOD = 8;
+
+const parseRows = (rows: string[]): Cells =>
+  rows.flatMap((row, y) => Array.from(row).flatMap((c, x) => (c === 'O' ? [[x, y] as [number, number]] : [])));
+
+export interface Catalog {
+  /** Canonical key of every phase of every object. */
+  entries: Map<string, CatalogEntry>;
+  footprints: Set<string>;
+}
+
+const catalogs = new Map<string, Catalog>();
+
+/**
+ * Every phase of every catalog object that actually survives under `rule`,
+ * found by running each seed until it repeats.
+ */
+export const catalogFor = (rule: LifeRule): Catalog => {
+  const id = formatRule({ states: 2, neighborhood: MOORE, ...rule });
+  let catalog = catalogs.get(id);
+  if (catalog) return catalog;
+  const entries = new Map<string, CatalogEntry>();
+  const footprints = new Set<string>();
+  for (const { name, rows } of CATALOG_SEEDS) {
+    const seed = parseRows(rows);
+    const pad = MAX_CATALOG_PERIOD + 2;
+    const cols = rows[0].length + 2 * pad;
+    const grid = emptyGrid(cols, rows.length + 2 * pad);
+    seed.forEach(([x, y]) => (grid[(y + pad) * cols + x + pad] = 1));
+    const engine = createLifeEngine({ cols, rows: rows.length + 2 * pad, rule, boundary: 'Dead', seed: grid });
+
+    // Gliders come back mirrored halfway through, so the period ends on an exact, unrotated repeat.
+    const shape = shapeKey(seed);
+    const [sx, sy] = topLeft(seed);
+    const phases = [seed];
+    let entry: CatalogEntry | null = null;
+    for (let period = 1; period <= MAX_CATALOG_PERIOD && !entry; period++) {
+      engine.step();
+      const live: Cells = [];
+      engine.cells.forEach((v, i) => v > 0 && live.push([i % cols - pad, Math.floor(i / cols) - pad]));
+      // Dying, growing or splitting apart: not an object under this rule.
+      if (live.length === 0 || live.length > MAX_CATALOG_POPULATION || findObjects(live)?.length !== 1) break;
+      if (shapeKey(live) !== shape) {
+        phases.push(live);
+        continue;
+      }
+      const [x, y] = topLeft(live);
+      const kind = x !== sx || y !== sy ? 'Spaceship' : period === 1 ? 'StillLife' : 'Oscillator';
+      entry = { name, period, kind };
+    }
+    if (!entry) continue;
+    for (const phase of phases) {
+      const { width, height } = boundsOf(phase);
+      entries.set(canonicalKey(phase), entry);
+      footprints.add(footprint(phase.length, width, height));
+    }
+  }
+  catalog = { entries, footprints };
+  catalogs.set(id, catalog);
+  return catalog;
+};
+
+/** Splits `cells` into objects and looks each up in the catalog for `rule`. */
+export const takeCensus = (cells: Cells, rule: LifeRule, maxArea?: number): CensusObject[] | null => {
+  const objects = findObjects(cells, maxArea);
+  if (!objects) return null;
+  const catalog = catalogFor(rule);
+  return objects.map(object => {
+    const bounds = boundsOf(object);
+    const entry = catalog.footprints.has(footprint(object.length, bounds.width, bounds.height))
+      ? catalog.entries.get(canonicalKey(object)) ?? null
+      : null;
+    return { entry, ...bounds, population: object.length };
+  });
+};
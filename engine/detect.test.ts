@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createCycleDetector, gridSignature } from './detect';
+import { createLifeEngine } from './life';
+
+const GLIDER: [number, number][] = [[1, 0], [2, 1], [0, 2], [1, 2], [2, 2]];
+
+describe('gridSignature', () => {
+  it('matches translated copies and reports the box corner', () => {
+    const a = new Uint8Array(20 * 10);
+    const b = new Uint8Array(20 * 10);
+    GLIDER.forEach(([x, y]) => {
+      a[(y + 1) * 20 + x + 2] = 1;
+      b[(y + 6) * 20 + x + 9] = 7;
+    });
+    const sa = gridSignature(a, 20);
+    const sb = gridSignature(b, 20);
+    expect(sa).toMatchObject({ x: 2, y: 1, population: 5 });
+    expect(sb).toMatchObject({ hash: sa.hash, x: 9, y: 6 });
+    // Exact hashing tells the ages apart.
+    expect(gridSignature(b, 20, true).hash).not.toBe(sb.hash);
+  });
+
+  it('matches a copy straddling the seam of a torus', () => {
+    const inside = new Uint8Array(12 * 10);
+    const straddling = new Uint8Array(12 * 10);
+    GLIDER.forEach(([x, y]) => {
+      inside[(y + 3) * 12 + x + 4] = 1;
+      straddling[((y + 8) % 10) * 12 + ((x + 11) % 12)] = 1;
+    });
+    const a = gridSignature(inside, 12, false, true);
+    const b = gridSignature(straddling, 12, false, true);
+    expect(a).toMatchObject({ x: 4, y: 3, population: 5 });
+    expect(b).toMatchObject({ hash: a.hash, x: 11, y: 8 });
+    // Boxed without wrapping, the straddling copy spans the whole grid and hashes differently.
+    expect(gridSignature(straddling, 12).hash).not.toBe(a.hash);
+  });
+
+  it('is empty for an empty grid', () => {
+    expect(gridSignature(new Uint8Array(16), 4)).toEqual({ hash: '', x: 0, y: 0, population: 0 });
+  });
+});
+
+describe('cycle detector', () => {
+  it('finds a glider moving one cell diagonally every four generations', () => {
+    const seed = new Uint8Array(16 * 16);
+    GLIDER.forEach(([x, y]) => (seed[y * 16 + x] = 1));
+    const life = createLifeEngine({ cols: 16, rows: 16, rule: { birth: [3], survival: [2, 3] }, boundary: 'Dead', seed });
+    const detector = createCycleDetector();
+    let settled = detector.observe(0, gridSignature(life.cells, 16));
+    while (!settled && life.generation < 20) {
+      life.step();
+      settled = detector.observe(life.generation, gridSignature(life.cells, 16));
+    }
+    expect(settled).toEqual({ kind: 'Spaceship', generation: 0, period: 4, dx: 1, dy: 1 });
+  });
+
+  it('finds a glider cycling across the seam of a torus from its first generation', () => {
+    const seed = new Uint8Array(12 * 10);
+    // Straddling both edges, and crossing them again within the first period.
+    GLIDER.forEach(([x, y]) => (seed[((y + 9) % 10) * 12 + ((x + 10) % 12)] = 1));
+    const life = createLifeEngine({ cols: 12, rows: 10, rule: { birth: [3], survival: [2, 3] }, boundary: 'Torus', seed });
+    const detector = createCycleDetector();
+    let settled = detector.observe(0, gridSignature(life.cells, 12, false, true));
+    while (!settled && life.generation < 20) {
+      life.step();
+      settled = detector.observe(life.generation, gridSignature(life.cells, 12, false, true));
+    }
+    expect(settled).toEqual({ kind: 'Spaceship', generation: 0, period: 4, dx: 1, dy: 1 });
+  });
+});
@@ -0,0 +1,200 @@
+// --- Extinction, still-life, oscillator and spaceship detection ---
+
+/** A generation's live cells, hashed relative to their bounding box so translated copies match. */
+export interface Signature {
+  hash: string;
+  /** Top-left of the bounding box; how far it moves over a period gives a spaceship's velocity. */
+  x: number;
+  y: number;
+  population: number;
+  /** Set on a torus, where positions wrap, so displacements are taken the short way round. */
+  wrap?: { cols: number; rows: number };
+}
+
+export type SettledKind = 'Extinct' | 'StillLife' | 'Oscillator' | 'Spaceship';
+
+export interface Settled {
+  kind: SettledKind;
+  /** First generation of the final state or cycle. */
+  generation: number;
+  /** 0 once extinct, 1 for a still life. */
+  period: number;
+  /** Displacement per period; non-zero only for spaceships. */
+  dx: number;
+  dy: number;
+}
+
+/** Periods longer than this go unnoticed; older generations are forgotten. */
+export const MAX_DETECTED_PERIOD = 1000;
+
+/** Two independent 32-bit multiply-xorshift lanes; 64 bits keeps accidental matches negligible. Both signatures hash through it. */
+const createHasher = () => {
+  let a = 0x9e3779b9;
+  let b = 0x85ebca6b;
+  return {
+    add: (n: number) => {
+      a = Math.imul(a ^ n, 0x5bd1e995);
+      a ^= a >>> 15;
+      b = Math.imul(b + n, 0xc2b2ae35) ^ (b >>> 13);
+    },
+    digest: () => `${(a >>> 0).toString(16)}:${(b >>> 0).toString(16)}`,
+  };
+};
+
+/** Index just past the longest run of zeros, counting a run that wraps past the end; 0 when there are none. */
+const afterLongestGap = (used: Uint8Array) => {
+  const n = used.length;
+  let best = 0;
+  let start = 0;
+  let run = 0;
+  // Two laps, so a gap across the end is measured whole.
+  for (let i = 0; i < 2 * n; i++) {
+    run = used[i % n] ? 0 : run + 1;
+    if (run > best && run <= n) {
+      best = run;
+      start = (i + 1) % n;
+    }
+  }
+  return start;
+};
+
+/**
+ * By default only alive or dead has to repeat, so growing ages don't matter;
+ * `exact` hashes cell values too, for Generations states. Each live cell
+ * feeds the hash its offset from the box corner.
+ *
+ * On a `torus` the box starts after the widest empty band of columns and of
+ * rows, wrapping around, so a pattern straddling the seam hashes the same as
+ * it does anywhere else.
+ */
+export const gridSignature = (cells: ArrayLike<number>, cols: number, exact = false, torus = false): Signature => {
+  const hasher = createHasher();
+  if (torus) {
+    const rows = cells.length / cols;
+    const usedCols = new Uint8Array(cols);
+    const usedRows = new Uint8Array(rows);
+    let population = 0;
+    for (let y = 0, i = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++, i++) {
+        if (cells[i] === 0) continue;
+        population++;
+        usedCols[x] = 1;
+        usedRows[y] = 1;
+      }
+    }
+    if (population === 0) return { hash: '', x: 0, y: 0, population: 0 };
+    const x0 = afterLongestGap(usedCols);
+    const y0 = afterLongestGap(usedRows);
+    for (let dy = 0; dy < rows; dy++) {
+      const row = ((y0 + dy) % rows) * cols;
+      // Columns x0.. then the ones that wrap round to ..x0, in that order, without a modulo per cell.
+      for (let x = x0, offset = dy * cols; x < cols + x0; x++, offset++) {
+        const cell = cells[row + (x < cols ? x : x - cols)];
+        if (cell !== 0) hasher.add(exact ? offset * 256 + cell : offset);
+      }
+    }
+    return { hash: hasher.digest(), x: x0, y: y0, population, wrap: { cols, rows } };
+  }
+
+  let first = 0;
+  while (first < cells.length && cells[first] === 0) first++;
+  if (first === cells.length) return { hash: '', x: 0, y: 0, population: 0 };
+  const y0 = Math.floor(first / cols);
+  let x0 = first % cols;
+  // Later rows only matter where they start left of the leftmost cell so far.
+  for (let row = (y0 + 1) * cols; row < cells.length && x0 > 0; row += cols) {
+    for (let x = 0; x < x0; x++) {
+      if (cells[row + x] !== 0) {
+        x0 = x;
+        break;
+      }
+    }
+  }
+  // The grid width never changes mid-run, so (y - y0) * cols + (x - x0) stays translation invariant.
+  const origin = y0 * cols + x0;
+  let population = 0;
+  for (let i = y0 * cols; i < cells.length; i++) {
+    const cell = cells[i];
+    if (cell === 0) continue;
+    population++;
+    hasher.add(exact ? (i - origin) * 256 + cell : i - origin);
+  }
+  return { hash: hasher.digest(), x: x0, y: y0, population };
+};
+
+/** The `gridSignature` of a list of live cells in any order, for planes without a fixed width; the two hash differently. */
+export const cellListSignature = (cells: [number, number][]): Signature => {
+  if (cells.length === 0) return { hash: '', x: 0, y: 0, population: 0 };
+  const sorted = [...cells].sort((p, q) => p[1] - q[1] || p[0] - q[0]);
+  const x0 = sorted.reduce((min, [x]) => Math.min(min, x), Infinity);
+  const y0 = sorted[0][1];
+  const hasher = createHasher();
+  sorted.forEach(([x, y]) => {
+    hasher.add(x - x0);
+    hasher.add(y - y0);
+    hasher.add(1);
+  });
+  return { hash: hasher.digest(), x: x0, y: y0, population: cells.length };
+};
+
+export interface CycleDetector {
+  /** Feed generations in increasing order; returns the verdict once the run has settled, then keeps returning it. */
+  observe: (generation: number, signature: Signature) => Settled | null;
+  reset: () => void;
+}
+
+/** `delta` wrapped into [-size/2, size/2) when positions repeat every `size` cells. */
+const shortest = (delta: number, size?: number) => {
+  if (!size) return delta;
+  const half = Math.floor(size / 2);
+  return ((((delta + half) % size) + size) % size) - half;
+};
+
+export const createCycleDetector = (maxPeriod = MAX_DETECTED_PERIOD): CycleDetector => {
+  let seen = new Map<string, { generation: number; x: number; y: number }>();
+  let order: { generation: number; hash: string }[] = [];
+  let settled: Settled | null = null;
+
+  return {
+    observe: (generation, { hash, x, y, population, wrap }) => {
+      if (settled) return settled;
+      if (population === 0) {
+        settled = { kind: 'Extinct', generation, period: 0, dx: 0, dy: 0 };
+        return settled;
+      }
+      const previous = seen.get(hash);
+      if (previous) {
+        const period = generation - previous.generation;
+        const dx = shortest(x - previous.x, wrap?.cols);
+        const dy = shortest(y - previous.y, wrap?.rows);
+        const kind = dx || dy ? 'Spaceship' : period === 1 ? 'StillLife' : 'Oscillator';
+        settled = { kind, generation: previous.generation, period, dx, dy };
+        return settled;
+      }
+      seen.set(hash, { generation, x, y });
+      order.push({ generation, hash });
+      while (order.length && generation - order[0].generation >= maxPeriod) {
+        seen.delete(order.shift()!.hash);
+      }
+      return null;
+    },
+    reset: () => {
+      seen = new Map();
+      order = [];
+      settled = null;
+    },
+  };
+};
+
+export const describeSettled = ({ kind, generation, period, dx, dy }: Settled) => {
+  switch (kind) {
+    case 'Extinct':
+      return `Extinct at gen ${generation}`;
+    case 'StillLife':
+      return `Still life reached at gen ${generation}`;
+    case 'Oscillator':
+      return `Period ${period} oscillator reached at gen ${generation}`;
+    case 'Spaceship':
+      return `Period ${period} spaceship moving (${dx}, ${dy}) reached at gen ${generation}`;
+  }
+};
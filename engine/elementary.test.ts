@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { createElementaryEngine, elementaryRule } from './elementary';
+
+describe('Rule 90', () => {
+  it('draws a Sierpinski triangle from a single cell', () => {
+    const engine = createElementaryEngine({ cols: 15, rule: elementaryRule(90), boundary: 'Dead' });
+    engine.step(7);
+    expect(engine.history.map(row => row.map(cell => (cell ? '#' : '.')).join(''))).toEqual([
+      '.......#.......',
+      '......#.#......',
+      '.....#...#.....',
+      '....#.#.#.#....',
+      '...#.......#...',
+      '..#.#.....#.#..',
+      '.#...#...#...#.',
+      '#.#.#.#.#.#.#.#',
+    ]);
+  });
+});
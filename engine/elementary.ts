@@ -0,0 +1,187 @@
+// --- 1D Automata (elementary, range-r and k-color totalistic Wolfram rules) ---
+
+import { OUTSIDE_ALIVE, OUTSIDE_DEAD, resolveIndex, type Boundary } from './boundary';
+
+/** Cell states 0..colors-1; 0 is empty. */
+export type Row = number[];
+
+/**
+ * A rule in Wolfram's numbering: digit i (base `colors`, least significant
+ * first) of `code` is the new state for neighborhood i. For general rules i
+ * reads the 2r+1 cells left to right as a base-`colors` number; for
+ * totalistic rules it is their sum.
+ */
+export interface WolframRule {
+  /** BigInt because radius-3 binary codes run up to 2^128. */
+  code: bigint;
+  colors: number;
+  radius: number;
+  totalistic: boolean;
+}
+
+export interface ElementaryOptions {
+  cols: number;
+  rule: WolframRule;
+  boundary?: Boundary;
+  seed?: Row;
+  historyLimit?: number;
+}
+
+export interface ElementaryEngine {
+  readonly cols: number;
+  readonly generation: number;
+  /** Oldest row first, newest last; bounded by `historyLimit`. */
+  readonly history: Row[];
+  rule: WolframRule;
+  boundary: Boundary;
+  historyLimit: number;
+  step: (generations?: number) => void;
+  reset: (seed?: Row) => void;
+}
+
+export const MAX_COLORS_1D = 4;
+export const MAX_RADIUS_1D = 3;
+/** General (non-totalistic) rules list every neighborhood; past this they get unwieldy. */
+export const MAX_TABLE_SIZE = 128;
+
+export const elementaryRule = (code: number): WolframRule => ({ code: BigInt(code), colors: 2, radius: 1, totalistic: false });
+
+/** Number of neighborhoods the rule assigns an output to. */
+export const ruleTableSize = ({ colors, radius, totalistic }: Omit<WolframRule, 'code'>) =>
+  totalistic ? (colors - 1) * (2 * radius + 1) + 1 : colors ** (2 * radius + 1);
+
+/** Codes run from 0 to ruleCount - 1. */
+export const ruleCount = (rule: Omit<WolframRule, 'code'>) => BigInt(rule.colors) ** BigInt(ruleTableSize(rule));
+
+/** Output state for every neighborhood index. */
+export const ruleTable = (rule: WolframRule) => {
+  const table = new Uint8Array(ruleTableSize(rule));
+  const base = BigInt(rule.colors);
+  let code = rule.code;
+  for (let i = 0; i < table.length; i++) {
+    table[i] = Number(code % base);
+    code /= base;
+  }
+  return table;
+};
+
+/** The cells (left to right) of general neighborhood `index`. */
+export const neighborhoodCells = ({ colors, radius }: WolframRule, index: number) => {
+  const cells: number[] = [];
+  for (let i = 0; i < 2 * radius + 1; i++) {
+    cells.unshift(index % colors);
+    index = Math.floor(index / colors);
+  }
+  return cells;
+};
+
+export const singleCellRow = (cols: number): Row => {
+  const row = new Array(cols).fill(0);
+  row[Math.floor(cols / 2)] = 1;
+  return row;
+};
+
+/** Non-empty cells take a uniformly random state 1..colors-1. */
+export const randomRow = (cols: number, density: number, random: () => number, colors = 2): Row =>
+  Array.from({ length: cols }, () => (random() < density ? 1 + Math.floor(random() * (colors - 1)) : 0));
+
+/** `pattern` tiled from the left edge; an empty pattern gives an empty row. */
+export const repeatingRow = (cols: number, pattern: number[]): Row =>
+  Array.from({ length: cols }, (_, x) => (pattern.length ? pattern[x % pattern.length] : 0));
+
+// --- Initial Conditions ---
+
+export type RowSeedKind = 'Single' | 'Random' | 'Pattern' | 'Drawn';
+
+export const ROW_SEED_KINDS: RowSeedKind[] = ['Single', 'Random', 'Pattern', 'Drawn'];
+
+export interface RowSeed {
+  kind: RowSeedKind;
+  /** Random: chance that a cell starts non-empty. */
+  density: number;
+  /** Pattern: cell states as digits, e.g. `1101`, repeated across the row. */
+  pattern: string;
+  /** Drawn: hand-drawn cell states from the left edge; cells past the end are empty. */
+  drawn: number[];
+}
+
+/** Builds the first row; states beyond the rule's colors are clamped to the highest one. */
+export const seedRow = (cols: number, seed: RowSeed, colors: number, random: () => number): Row => {
+  const clamp = (state: number) => Math.min(state, colors - 1);
+  switch (seed.kind) {
+    case 'Random':
+      return randomRow(cols, seed.density, random, colors);
+    case 'Pattern':
+      return repeatingRow(cols, Array.from(seed.pattern.replace(/\D/g, ''), digit => clamp(Number(digit))));
+    case 'Drawn':
+      return Array.from({ length: cols }, (_, x) => clamp(seed.drawn[x] ?? 0));
+    default:
+      return singleCellRow(cols);
+  }
+};
+
+const cellAt = (row: Row, i: number, boundary: Boundary) => {
+  const j = resolveIndex(i, row.length, boundary);
+  if (j === OUTSIDE_ALIVE) return 1;
+  if (j === OUTSIDE_DEAD) return 0;
+  return row[j];
+};
+
+export const stepElementary = (
+  current: Row,
+  rule: WolframRule,
+  boundary: Boundary = 'Torus',
+  table: Uint8Array = ruleTable(rule),
+): Row => {
+  const { colors, radius, totalistic } = rule;
+  const cols = current.length;
+  return current.map((_, i) => {
+    let index = 0;
+    for (let j = i - radius; j <= i + radius; j++) {
+      const cell = j >= 0 && j < cols ? current[j] : cellAt(current, j, boundary);
+      index = totalistic ? index + cell : index * colors + cell;
+    }
+    return table[index];
+  });
+};
+
+export const createElementaryEngine = ({
+  cols,
+  rule,
+  boundary = 'Torus',
+  seed,
+  historyLimit = Infinity,
+}: ElementaryOptions): ElementaryEngine => {
+  let history: Row[] = [];
+  let generation = 0;
+  let currentRule = rule;
+  let table = ruleTable(rule);
+
+  const engine: ElementaryEngine = {
+    cols,
+    boundary,
+    historyLimit,
+    get generation() { return generation; },
+    get history() { return history; },
+    get rule() { return currentRule; },
+    set rule(next: WolframRule) {
+      if (next === currentRule) return;
+      currentRule = next;
+      table = ruleTable(next);
+    },
+    step: (generations = 1) => {
+      for (let g = 0; g < generations; g++) {
+        history.push(stepElementary(history[history.length - 1], currentRule, engine.boundary, table));
+        if (history.length > engine.historyLimit) history.shift();
+        generation++;
+      }
+    },
+    reset: (nextSeed?: Row) => {
+      history = [nextSeed ? nextSeed.slice(0, cols) : singleCellRow(cols)];
+      generation = 0;
+    },
+  };
+
+  engine.reset(seed);
+  return engine;
+};
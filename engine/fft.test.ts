@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { fft, fft2D, nextPowerOfTwo } from './fft';
+import { createRandom } from './random';
+
+const randomSignal = (n: number, random: () => number) => Float64Array.from({ length: n }, () => random() * 2 - 1);
+
+describe('fft', () => {
+  it('rounds lengths up to a power of two', () => {
+    expect([0, 1, 2, 3, 17, 64].map(nextPowerOfTwo)).toEqual([1, 1, 2, 4, 32, 64]);
+  });
+
+  it('matches a direct DFT', () => {
+    const random = createRandom(1);
+    const n = 16;
+    const re = randomSignal(n, random);
+    const im = randomSignal(n, random);
+    const expected = Array.from({ length: n }, (_, k) => {
+      let sr = 0;
+      let si = 0;
+      for (let t = 0; t < n; t++) {
+        const angle = (-2 * Math.PI * k * t) / n;
+        sr += re[t] * Math.cos(angle) - im[t] * Math.sin(angle);
+        si += re[t] * Math.sin(angle) + im[t] * Math.cos(angle);
+      }
+      return [sr, si];
+    });
+    fft(re, im);
+    expected.forEach(([sr, si], k) => {
+      expect(re[k]).toBeCloseTo(sr, 9);
+      expect(im[k]).toBeCloseTo(si, 9);
+    });
+  });
+
+  it('round-trips through the unscaled inverse', () => {
+    const random = createRandom(2);
+    const re = randomSignal(256, random);
+    const im = randomSignal(256, random);
+    const [re0, im0] = [re.slice(), im.slice()];
+    fft(re, im);
+    fft(re, im, true);
+    re.forEach((v, i) => expect(v / 256).toBeCloseTo(re0[i], 12));
+    im.forEach((v, i) => expect(v / 256).toBeCloseTo(im0[i], 12));
+  });
+
+  it('round-trips a grid through the scaled 2D inverse', () => {
+    const random = createRandom(3);
+    const re = randomSignal(32 * 8, random);
+    const im = new Float64Array(32 * 8);
+    const re0 = re.slice();
+    fft2D(re, im, 32, 8);
+    fft2D(re, im, 32, 8, true);
+    re.forEach((v, i) => expect(v).toBeCloseTo(re0[i], 12));
+    im.forEach(v => expect(v).toBeCloseTo(0, 12));
+  });
+});
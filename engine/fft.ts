@@ -0,0 +1,81 @@
+// --- Radix-2 FFT for wide-kernel convolution ---
+
+export const nextPowerOfTwo = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+const twiddles = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+const twiddlesFor = (n: number) => {
+  let table = twiddles.get(n);
+  if (!table) {
+    const cos = new Float64Array(n / 2);
+    const sin = new Float64Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((2 * Math.PI * k) / n);
+      sin[k] = -Math.sin((2 * Math.PI * k) / n);
+    }
+    table = { cos, sin };
+    twiddles.set(n, table);
+  }
+  return table;
+};
+
+/** In-place transform of one complex signal whose length is a power of two. The inverse is unscaled. */
+export const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  const { cos, sin } = twiddlesFor(n);
+  const sign = inverse ? -1 : 1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * stride];
+        const wi = sign * sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+/** In-place transform of a row-major width x height complex grid; the inverse is scaled by 1 / (width * height). */
+export const fft2D = (re: Float64Array, im: Float64Array, width: number, height: number, inverse = false) => {
+  for (let y = 0; y < height; y++) {
+    fft(re.subarray(y * width, (y + 1) * width), im.subarray(y * width, (y + 1) * width), inverse);
+  }
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    fft(colRe, colIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
+  }
+  if (inverse) {
+    const scale = 1 / (width * height);
+    for (let i = 0; i < re.length; i++) {
+      re[i] *= scale;
+      im[i] *= scale;
+    }
+  }
+};
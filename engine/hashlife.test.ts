@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createHashLifeEngine, type HashLifeEngine } from './hashlife';
+import { createLifeEngine, emptyGrid } from './life';
+
+const LIFE = { birth: [3], survival: [2, 3] };
+const GLIDER: [number, number][] = [[1, 0], [2, 1], [0, 2], [1, 2], [2, 2]];
+const R_PENTOMINO: [number, number][] = [[1, 0], [2, 0], [0, 1], [1, 1], [1, 2]];
+const BLINKER: [number, number][] = [[0, 1], [1, 1], [2, 1]];
+
+/** Live cells as sorted `x,y` keys. */
+const liveCells = (engine: HashLifeEngine) => {
+  const cells: string[] = [];
+  engine.forEachBlock(-Infinity, -Infinity, Infinity, Infinity, 0, (x, y) => cells.push(`${x},${y}`));
+  return cells.sort();
+};
+
+/** The same seed run on a dead-edged grid wide enough that nothing reaches the edge, in HashLife coordinates. */
+const reference = (seed: [number, number][], generations: number) => {
+  const size = 120;
+  const offset = size / 2;
+  const grid = emptyGrid(size, size);
+  seed.forEach(([x, y]) => (grid[(y + offset) * size + x + offset] = 1));
+  const life = createLifeEngine({ cols: size, rows: size, rule: LIFE, boundary: 'Dead', seed: grid });
+  for (let i = 0; i < generations; i++) life.step();
+  const cells: string[] = [];
+  life.cells.forEach((age, i) => age > 0 && cells.push(`${(i % size) - offset},${Math.floor(i / size) - offset}`));
+  return cells.sort();
+};
+
+describe('HashLife rule', () => {
+  it('keeps the tree when an equal rule arrives as a copy', () => {
+    const engine = createHashLifeEngine({ rule: { birth: [3], survival: [2, 3] }, seed: GLIDER });
+    engine.step();
+    const snapshot = engine.snapshot();
+    const { root } = engine;
+    engine.rule = structuredClone(engine.rule);
+    expect(engine.root).toBe(root);
+    engine.step();
+    engine.restore({ ...snapshot, rule: structuredClone(snapshot.rule) });
+    expect(engine.root).toBe(snapshot.root);
+  });
+
+  it('rebuilds under a different rule', () => {
+    const engine = createHashLifeEngine({ rule: { birth: [3], survival: [2, 3] }, seed: GLIDER });
+    const { root } = engine;
+    engine.rule = { birth: [3, 6], survival: [2, 3] };
+    expect(engine.root).not.toBe(root);
+    expect(engine.population).toBe(5);
+  });
+});
+
+describe('HashLife evolution', () => {
+  const PATTERNS = { glider: GLIDER, 'R-pentomino': R_PENTOMINO, blinker: BLINKER };
+
+  it.each(Object.entries(PATTERNS))('steps a %s one generation at a time like the grid engine', (_, seed) => {
+    const engine = createHashLifeEngine({ rule: LIFE, seed });
+    for (let generation = 1; generation <= 12; generation++) {
+      engine.step();
+      expect(engine.generation).toBe(generation);
+      expect(liveCells(engine)).toEqual(reference(seed, generation));
+    }
+  });
+
+  it.each(Object.entries(PATTERNS))('hypersteps a %s like the grid engine', (_, seed) => {
+    for (let k = 1; k <= 4; k++) {
+      const engine = createHashLifeEngine({ rule: LIFE, seed, stepLog2: k });
+      engine.step();
+      engine.step();
+      expect(engine.generation).toBe(2 << k);
+      expect(liveCells(engine)).toEqual(reference(seed, 2 << k));
+    }
+  });
+
+  it('moves a glider 2^k cells diagonally in 4 hypersteps of 2^k generations', () => {
+    for (let k = 0; k <= 6; k++) {
+      const engine = createHashLifeEngine({ rule: LIFE, seed: GLIDER, stepLog2: k });
+      for (let i = 0; i < 4; i++) engine.step();
+      expect(engine.generation).toBe(4 << k);
+      const shift = 1 << k;
+      expect(liveCells(engine)).toEqual(GLIDER.map(([x, y]) => `${x + shift},${y + shift}`).sort());
+    }
+  });
+});
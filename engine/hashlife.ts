@@ -0,0 +1,354 @@
+// --- HashLife (memoized quadtree engine for an unbounded Life-like plane) ---
+
+import { buildRuleTable, sameRule, type LifeRule } from './life';
+import type { Bounds } from './stats';
+
+/**
+ * Canonical quadtree node. Level 0 nodes are single cells; a level k node
+ * covers 2^k x 2^k cells. Identical subtrees share one node instance.
+ */
+export interface QuadNode {
+  readonly id: number;
+  readonly level: number;
+  readonly population: number;
+  readonly nw: QuadNode;
+  readonly ne: QuadNode;
+  readonly sw: QuadNode;
+  readonly se: QuadNode;
+  /** Memoized successors, indexed by log2 of the step size. */
+  next: (QuadNode | undefined)[];
+}
+
+export interface HashLifeOptions {
+  rule: LifeRule;
+  /** Live cells as [x, y] pairs; the plane starts empty when omitted. */
+  seed?: Iterable<[number, number]>;
+  stepLog2?: number;
+}
+
+/** A past state; cheap to keep, since the tree shares every unchanged node. */
+export interface HashLifeSnapshot {
+  readonly root: QuadNode;
+  readonly generation: number;
+  /** Memoized successors in the tree are only valid under this rule. */
+  readonly rule: LifeRule;
+}
+
+export interface HashLifeEngine {
+  readonly generation: number;
+  readonly population: number;
+  readonly root: QuadNode;
+  /** Nodes created so far, memoized successors included; snapshots keep alive the ones made since the last. */
+  readonly nodes: number;
+  rule: LifeRule;
+  /** Each step advances 2^stepLog2 generations. */
+  stepLog2: number;
+  step: () => void;
+  reset: (seed?: Iterable<[number, number]>) => void;
+  get: (x: number, y: number) => number;
+  set: (x: number, y: number, alive: number) => void;
+  toggle: (x: number, y: number) => void;
+  snapshot: () => HashLifeSnapshot;
+  restore: (snapshot: HashLifeSnapshot) => void;
+  /** Extent of the live cells, or null when there are none. */
+  bounds: () => Bounds | null;
+  /**
+   * Visits live blocks intersecting [x0, x1) x [y0, y1). Nodes of at most
+   * `minSize` cells across are reported whole instead of descended into.
+   */
+  forEachBlock: (
+    x0: number, y0: number, x1: number, y1: number,
+    minSize: number,
+    visit: (x: number, y: number, size: number) => void,
+  ) => void;
+}
+
+/** Interned nodes above this count trigger a rebuild that drops dead entries. */
+const TABLE_LIMIT = 1 << 20;
+
+export const createHashLifeEngine = ({ rule, seed, stepLog2 = 0 }: HashLifeOptions): HashLifeEngine => {
+  let nextId = 2;
+  let table = new Map<string, QuadNode>();
+  let empties: QuadNode[] = [];
+  let currentRule = rule;
+  let birth = buildRuleTable(rule.birth);
+  let survival = buildRuleTable(rule.survival);
+  let generation = 0;
+
+  const leaf = (alive: number): QuadNode => {
+    const node = { id: alive, level: 0, population: alive, next: [] } as unknown as QuadNode;
+    Object.assign(node, { nw: node, ne: node, sw: node, se: node });
+    return node;
+  };
+  const DEAD = leaf(0);
+  const ALIVE = leaf(1);
+
+  const join = (nw: QuadNode, ne: QuadNode, sw: QuadNode, se: QuadNode): QuadNode => {
+    const key = `${nw.id},${ne.id},${sw.id},${se.id}`;
+    let node = table.get(key);
+    if (!node) {
+      node = {
+        id: nextId++,
+        level: nw.level + 1,
+        population: nw.population + ne.population + sw.population + se.population,
+        nw, ne, sw, se,
+        next: [],
+      };
+      table.set(key, node);
+    }
+    return node;
+  };
+
+  const empty = (level: number): QuadNode => {
+    if (level === 0) return DEAD;
+    if (!empties[level]) {
+      const child = empty(level - 1);
+      empties[level] = join(child, child, child, child);
+    }
+    return empties[level];
+  };
+
+  const expand = (node: QuadNode) => {
+    const border = empty(node.level - 1);
+    return join(
+      join(border, border, border, node.nw),
+      join(border, border, node.ne, border),
+      join(border, node.sw, border, border),
+      join(node.se, border, border, border),
+    );
+  };
+
+  const center = (node: QuadNode) => join(node.nw.se, node.ne.sw, node.sw.ne, node.se.nw);
+
+  // One generation of the inner 2x2 of a 4x4 node.
+  const baseStep = (node: QuadNode) => {
+    const cells: number[] = [];
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        const quad = y < 2 ? (x < 2 ? node.nw : node.ne) : (x < 2 ? node.sw : node.se);
+        const cell = (y & 1) ? ((x & 1) ? quad.se : quad.sw) : ((x & 1) ? quad.ne : quad.nw);
+        cells.push(cell.population);
+      }
+    }
+    const next = (x: number, y: number) => {
+      let neighbors = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx !== 0 || dy !== 0) neighbors += cells[(y + dy) * 4 + x + dx];
+        }
+      }
+      const table = cells[y * 4 + x] ? survival : birth;
+      return table[neighbors] ? ALIVE : DEAD;
+    };
+    return join(next(1, 1), next(2, 1), next(1, 2), next(2, 2));
+  };
+
+  /** Center of `node` (one level down) advanced 2^j generations, j <= level - 2. */
+  const successor = (node: QuadNode, step: number): QuadNode => {
+    const j = Math.min(step, node.level - 2);
+    const cached = node.next[j];
+    if (cached) return cached;
+
+    let result: QuadNode;
+    if (node.population === 0) {
+      result = node.nw;
+    } else if (node.level === 2) {
+      result = baseStep(node);
+    } else {
+      const { nw, ne, sw, se } = node;
+      const c1 = successor(join(nw.nw, nw.ne, nw.sw, nw.se), j);
+      const c2 = successor(join(nw.ne, ne.nw, nw.se, ne.sw), j);
+      const c3 = successor(join(ne.nw, ne.ne, ne.sw, ne.se), j);
+      const c4 = successor(join(nw.sw, nw.se, sw.nw, sw.ne), j);
+      const c5 = successor(join(nw.se, ne.sw, sw.ne, se.nw), j);
+      const c6 = successor(join(ne.sw, ne.se, se.nw, se.ne), j);
+      const c7 = successor(join(sw.nw, sw.ne, sw.sw, sw.se), j);
+      const c8 = successor(join(sw.ne, se.nw, sw.se, se.sw), j);
+      const c9 = successor(join(se.nw, se.ne, se.sw, se.se), j);
+      if (j < node.level - 2) {
+        // Slow path: the sub-results already cover the whole step, just recenter them.
+        result = join(
+          join(c1.se, c2.sw, c4.ne, c5.nw),
+          join(c2.se, c3.sw, c5.ne, c6.nw),
+          join(c4.se, c5.sw, c7.ne, c8.nw),
+          join(c5.se, c6.sw, c8.ne, c9.nw),
+        );
+      } else {
+        result = join(
+          successor(join(c1, c2, c4, c5), j),
+          successor(join(c2, c3, c5, c6), j),
+          successor(join(c4, c5, c7, c8), j),
+          successor(join(c5, c6, c8, c9), j),
+        );
+      }
+    }
+    node.next[j] = result;
+    return result;
+  };
+
+  // Root covers [-2^(level-1), 2^(level-1)) on both axes.
+  let root = empty(3);
+
+  const half = (node: QuadNode) => (node.level === 0 ? 0 : 2 ** (node.level - 1));
+
+  const contains = (node: QuadNode, x: number, y: number) => {
+    const h = half(node);
+    return x >= -h && x < h && y >= -h && y < h;
+  };
+
+  const getNode = (node: QuadNode, x: number, y: number): number => {
+    if (node.level === 0) return node.population;
+    if (node.population === 0) return 0;
+    const q = 2 ** (node.level - 2);
+    if (y < 0) return x < 0 ? getNode(node.nw, x + q, y + q) : getNode(node.ne, x - q, y + q);
+    return x < 0 ? getNode(node.sw, x + q, y - q) : getNode(node.se, x - q, y - q);
+  };
+
+  const setNode = (node: QuadNode, x: number, y: number, alive: number): QuadNode => {
+    if (node.level === 0) return alive ? ALIVE : DEAD;
+    const q = 2 ** (node.level - 2);
+    const { nw, ne, sw, se } = node;
+    if (node.level === 1) {
+      // Level 1 children are cells at offsets -1 and 0.
+      const cell = alive ? ALIVE : DEAD;
+      if (y < 0) return x < 0 ? join(cell, ne, sw, se) : join(nw, cell, sw, se);
+      return x < 0 ? join(nw, ne, cell, se) : join(nw, ne, sw, cell);
+    }
+    if (y < 0) {
+      return x < 0
+        ? join(setNode(nw, x + q, y + q, alive), ne, sw, se)
+        : join(nw, setNode(ne, x - q, y + q, alive), sw, se);
+    }
+    return x < 0
+      ? join(nw, ne, setNode(sw, x + q, y - q, alive), se)
+      : join(nw, ne, sw, setNode(se, x - q, y - q, alive));
+  };
+
+  const collectCells = (node: QuadNode, x: number, y: number, out: [number, number][]) => {
+    if (node.population === 0) return;
+    if (node.level === 0) {
+      out.push([x, y]);
+      return;
+    }
+    const size = 2 ** (node.level - 1);
+    collectCells(node.nw, x, y, out);
+    collectCells(node.ne, x + size, y, out);
+    collectCells(node.sw, x, y + size, out);
+    collectCells(node.se, x + size, y + size, out);
+  };
+
+  /** Live-cell extent of a node relative to its top-left corner; memoized, since nodes are shared. */
+  const extents = new WeakMap<QuadNode, readonly [number, number, number, number]>();
+  const extentOf = (node: QuadNode): readonly [number, number, number, number] | null => {
+    if (node.population === 0) return null;
+    if (node.level === 0) return [0, 0, 0, 0];
+    let extent = extents.get(node);
+    if (extent) return extent;
+    const size = 2 ** (node.level - 1);
+    let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+    ([[node.nw, 0, 0], [node.ne, size, 0], [node.sw, 0, size], [node.se, size, size]] as const).forEach(([child, dx, dy]) => {
+      const e = extentOf(child);
+      if (!e) return;
+      x0 = Math.min(x0, e[0] + dx);
+      y0 = Math.min(y0, e[1] + dy);
+      x1 = Math.max(x1, e[2] + dx);
+      y1 = Math.max(y1, e[3] + dy);
+    });
+    extent = [x0, y0, x1, y1];
+    extents.set(node, extent);
+    return extent;
+  };
+
+  const liveCells = (node = root) => {
+    const out: [number, number][] = [];
+    const h = half(node);
+    collectCells(node, -h, -h, out);
+    return out;
+  };
+
+  const load = (cells: Iterable<[number, number]>) => {
+    table = new Map();
+    empties = [];
+    let next = empty(3);
+    for (const [x, y] of cells) {
+      while (!contains(next, x, y)) next = expand(next);
+      next = setNode(next, x, y, 1);
+    }
+    root = next;
+  };
+
+  const isPadded = (node: QuadNode) =>
+    node.level >= 3 &&
+    node.nw.population === node.nw.se.se.population &&
+    node.ne.population === node.ne.sw.sw.population &&
+    node.sw.population === node.sw.ne.ne.population &&
+    node.se.population === node.se.nw.nw.population;
+
+  const engine: HashLifeEngine = {
+    stepLog2,
+    get generation() { return generation; },
+    get population() { return root.population; },
+    get root() { return root; },
+    get nodes() { return nextId; },
+    get rule() { return currentRule; },
+    set rule(next: LifeRule) {
+      // Keep the tree, and every successor memoized in it, unless the rule really changed.
+      if (sameRule(next, currentRule)) return;
+      currentRule = next;
+      birth = buildRuleTable(next.birth);
+      survival = buildRuleTable(next.survival);
+      load(liveCells());
+    },
+    step: () => {
+      const j = Math.max(0, Math.floor(engine.stepLog2));
+      while (!isPadded(root) || root.level < j + 3) root = expand(root);
+      root = successor(expand(root), j);
+      generation += 2 ** j;
+      if (table.size > TABLE_LIMIT) load(liveCells());
+    },
+    reset: (nextSeed?: Iterable<[number, number]>) => {
+      load(nextSeed ?? []);
+      generation = 0;
+    },
+    get: (x, y) => (contains(root, x, y) ? getNode(root, x, y) : 0),
+    set: (x, y, alive) => {
+      while (!contains(root, x, y)) root = expand(root);
+      root = setNode(root, x, y, alive ? 1 : 0);
+    },
+    toggle: (x, y) => engine.set(x, y, engine.get(x, y) ? 0 : 1),
+    snapshot: () => ({ root, generation, rule: currentRule }),
+    bounds: () => {
+      const extent = extentOf(root);
+      if (!extent) return null;
+      const h = half(root);
+      return { x: extent[0] - h, y: extent[1] - h, width: extent[2] - extent[0] + 1, height: extent[3] - extent[1] + 1 };
+    },
+    restore: (snapshot) => {
+      // Trees built under another rule carry stale successors, so rebuild those from their cells.
+      if (sameRule(snapshot.rule, currentRule)) root = snapshot.root;
+      else load(liveCells(snapshot.root));
+      generation = snapshot.generation;
+    },
+    forEachBlock: (x0, y0, x1, y1, minSize, visit) => {
+      const walk = (node: QuadNode, x: number, y: number) => {
+        if (node.population === 0) return;
+        const size = 2 ** node.level;
+        if (x >= x1 || y >= y1 || x + size <= x0 || y + size <= y0) return;
+        if (node.level === 0 || size <= minSize) {
+          visit(x, y, size);
+          return;
+        }
+        const h = size / 2;
+        walk(node.nw, x, y);
+        walk(node.ne, x + h, y);
+        walk(node.sw, x, y + h);
+        walk(node.se, x + h, y + h);
+      };
+      const h = half(root);
+      walk(root, -h, -h);
+    },
+  };
+
+  engine.reset(seed);
+  return engine;
+};
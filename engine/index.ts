@@ -0,0 +1,12 @@
+export * from './boundary';
+export * from './elementary';
+export * from './life';
+export * from './neighborhood';
+export * from './random';
+export * from './hashlife';
+export * from './rulestring';
+export * from './fft';
+export * from './lenia';
+export * from './stats';
+export * from './detect';
+export * from './census';
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { BOUNDARIES, OUTSIDE_ALIVE, OUTSIDE_DEAD, resolveCell, type Boundary } from './boundary';
+import { buildKernel, createLeniaEngine, growth, type Field, type LeniaParams } from './lenia';
+import { createRandom } from './random';
+
+const COLS = 23;
+const ROWS = 17;
+const PARAMS: LeniaParams = { radius: 4, mu: 0.26, sigma: 0.036, dt: 0.1 };
+
+const randomSeed = (seed: number): Field => {
+  const random = createRandom(seed);
+  return Float32Array.from({ length: COLS * ROWS }, () => random());
+};
+
+/** The kernel summed cell by cell, edges resolved the way the engine's ghost border fills them. */
+const directPotential = (cells: Field, radius: number, boundary: Boundary) => {
+  const { dx, dy, weights } = buildKernel(radius);
+  return Array.from({ length: COLS * ROWS }, (_, i) => {
+    const x = i % COLS;
+    const y = Math.floor(i / COLS);
+    let sum = 0;
+    weights.forEach((w, k) => {
+      const j = resolveCell(x + dx[k], y + dy[k], COLS, ROWS, boundary);
+      sum += w * (j === OUTSIDE_DEAD ? 0 : j === OUTSIDE_ALIVE ? 1 : cells[j]);
+    });
+    return sum;
+  });
+};
+
+const expectClose = (actual: ArrayLike<number>, expected: ArrayLike<number>) => {
+  const worst = Array.from(actual).reduce((max, v, i) => Math.max(max, Math.abs(v - expected[i])), 0);
+  expect(worst).toBeLessThan(1e-5);
+};
+
+describe('Lenia', () => {
+  it.each(BOUNDARIES)('convolves like a direct kernel sum at %s edges', boundary => {
+    const seed = randomSeed(1);
+    const engine = createLeniaEngine({ cols: COLS, rows: ROWS, params: PARAMS, boundary, seed });
+    expectClose(engine.potential, directPotential(seed, PARAMS.radius, boundary));
+  });
+
+  it('moves every cell dt along the growth curve and clamps it to [0, 1]', () => {
+    const engine = createLeniaEngine({ cols: COLS, rows: ROWS, params: PARAMS, seed: randomSeed(2) });
+    const before = engine.cells.slice();
+    const potential = engine.potential.slice();
+    engine.step();
+    const expected = Array.from(before, (v, i) =>
+      Math.min(1, Math.max(0, v + PARAMS.dt * growth(potential[i], PARAMS.mu, PARAMS.sigma))),
+    );
+    expectClose(engine.cells, expected);
+    expectClose(engine.potential, directPotential(engine.cells, PARAMS.radius, 'Torus'));
+  });
+
+  it('reconvolves only when the radius changes', () => {
+    const seed = randomSeed(3);
+    const engine = createLeniaEngine({ cols: COLS, rows: ROWS, params: PARAMS, seed });
+    // A marker the next convolution would overwrite.
+    engine.potential[0] = 42;
+    engine.params = structuredClone(PARAMS);
+    engine.params = { ...PARAMS, mu: 0.3, dt: 0.2 };
+    expect(engine.potential[0]).toBe(42);
+    expect(engine.params.mu).toBe(0.3);
+    engine.params = { ...PARAMS, radius: 6 };
+    expectClose(engine.potential, directPotential(seed, 6, 'Torus'));
+  });
+});
@@ -0,0 +1,221 @@
+// --- Continuous Automata (Lenia / SmoothLife) on a bounded grid ---
+
+import { OUTSIDE_ALIVE, OUTSIDE_DEAD, resolveCell, type Boundary } from './boundary';
+import { fft2D, nextPowerOfTwo } from './fft';
+
+/** Row-major cell values in [0, 1] (index = y * cols + x). */
+export type Field = Float32Array;
+
+/**
+ * Each step convolves the field with a ring-shaped kernel of `radius` cells,
+ * maps the resulting potential through a Gaussian growth curve centered on
+ * `mu` with width `sigma`, and moves every cell `dt` of the way along it.
+ */
+export interface LeniaParams {
+  radius: number;
+  mu: number;
+  sigma: number;
+  dt: number;
+}
+
+export interface LeniaOptions {
+  cols: number;
+  rows: number;
+  params: LeniaParams;
+  boundary?: Boundary;
+  seed?: Field;
+}
+
+export interface LeniaSnapshot {
+  readonly cells: Field;
+  readonly generation: number;
+}
+
+export interface LeniaEngine {
+  readonly cols: number;
+  readonly rows: number;
+  readonly generation: number;
+  /** Front buffer of cell values. Swapped on every step, so don't hold on to it. */
+  readonly cells: Field;
+  /** Kernel-weighted neighborhood of every cell in `cells`, in [0, 1]. */
+  readonly potential: Field;
+  params: LeniaParams;
+  boundary: Boundary;
+  step: (generations?: number) => void;
+  reset: (seed?: Field) => void;
+  /**
+   * Adds a soft blob of noise centered on (x, y) that fades out at `radius`.
+   * A perfectly smooth blob is symmetric and just dissolves; the noise gives it a direction to grow in.
+   */
+  deposit: (x: number, y: number, radius: number, random?: () => number) => void;
+  snapshot: () => LeniaSnapshot;
+  restore: (snapshot: LeniaSnapshot) => void;
+}
+
+export const MIN_KERNEL_RADIUS = 2;
+export const MAX_KERNEL_RADIUS = 30;
+
+/** Offsets and weights (summing to 1) of the ring kernel; the smooth bump peaks halfway out. */
+export const buildKernel = (radius: number) => {
+  const dx: number[] = [];
+  const dy: number[] = [];
+  const weights: number[] = [];
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      const r = Math.hypot(x, y) / radius;
+      if (r <= 0 || r >= 1) continue;
+      dx.push(x);
+      dy.push(y);
+      weights.push(Math.exp(4 - 1 / (r * (1 - r))));
+    }
+  }
+  const total = weights.reduce((a, b) => a + b, 0);
+  return { dx, dy, weights: Float32Array.from(weights, w => w / total) };
+};
+
+export const growth = (u: number, mu: number, sigma: number) =>
+  2 * Math.exp(-((u - mu) ** 2) / (2 * sigma * sigma)) - 1;
+
+/**
+ * Scattered square patches of noise three kernels wide, covering about a
+ * quarter of the grid. Smaller or smoother seeds mostly dissolve.
+ */
+export const randomField = (cols: number, rows: number, radius: number, random: () => number = Math.random): Field => {
+  const field = new Float32Array(cols * rows);
+  const size = Math.min(3 * radius, cols, rows);
+  const patches = Math.max(1, Math.round((cols * rows) / (size * size * 4)));
+  for (let p = 0; p < patches; p++) {
+    const x0 = Math.floor(random() * (cols - size + 1));
+    const y0 = Math.floor(random() * (rows - size + 1));
+    for (let y = y0; y < y0 + size; y++) {
+      for (let x = x0; x < x0 + size; x++) field[y * cols + x] = random() * 0.6;
+    }
+  }
+  return field;
+};
+
+/** FFT buffers big enough for the field plus a `radius`-wide ghost border, and the kernel's spectrum. */
+const planConvolution = (cols: number, rows: number, radius: number) => {
+  const width = nextPowerOfTwo(cols + 2 * radius);
+  const height = nextPowerOfTwo(rows + 2 * radius);
+  const kernelRe = new Float64Array(width * height);
+  const kernelIm = new Float64Array(width * height);
+  const { dx, dy, weights } = buildKernel(radius);
+  // The ring is symmetric, so convolution and correlation agree.
+  weights.forEach((w, k) => {
+    kernelRe[((dy[k] + height) % height) * width + ((dx[k] + width) % width)] = w;
+  });
+  fft2D(kernelRe, kernelIm, width, height);
+  return {
+    width,
+    height,
+    re: new Float64Array(width * height),
+    im: new Float64Array(width * height),
+    kernelRe,
+    kernelIm,
+  };
+};
+
+export const createLeniaEngine = ({ cols, rows, params, boundary = 'Torus', seed }: LeniaOptions): LeniaEngine => {
+  let front: Field = new Float32Array(cols * rows);
+  let back: Field = new Float32Array(cols * rows);
+  const potential = new Float32Array(cols * rows);
+  let currentParams = params;
+  let currentBoundary = boundary;
+  let generation = 0;
+  let plan = planConvolution(cols, rows, params.radius);
+
+  /** Circular convolution of the ghost-padded field; the padding keeps wrap-around away from real cells. */
+  const convolve = () => {
+    const r = currentParams.radius;
+    const { width, height, re, im, kernelRe, kernelIm } = plan;
+    re.fill(0);
+    im.fill(0);
+    for (let py = 0; py < rows + 2 * r; py++) {
+      const y = py - r;
+      const interior = y >= 0 && y < rows;
+      for (let px = 0; px < cols + 2 * r; px++) {
+        const x = px - r;
+        if (interior && x === 0) {
+          re.set(front.subarray(y * cols, (y + 1) * cols), py * width + r);
+          px += cols - 1;
+          continue;
+        }
+        const j = resolveCell(x, y, cols, rows, currentBoundary);
+        re[py * width + px] = j === OUTSIDE_DEAD ? 0 : j === OUTSIDE_ALIVE ? 1 : front[j];
+      }
+    }
+    fft2D(re, im, width, height);
+    for (let i = 0; i < re.length; i++) {
+      const a = re[i];
+      const b = im[i];
+      re[i] = a * kernelRe[i] - b * kernelIm[i];
+      im[i] = a * kernelIm[i] + b * kernelRe[i];
+    }
+    fft2D(re, im, width, height, true);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) potential[y * cols + x] = re[(y + r) * width + x + r];
+    }
+  };
+
+  const engine: LeniaEngine = {
+    cols,
+    rows,
+    potential,
+    get generation() { return generation; },
+    get cells() { return front; },
+    get params() { return currentParams; },
+    set params(next: LeniaParams) {
+      // Only the radius shapes the potential; mu, sigma and dt act on the next step. Params arrive as copies, so compare it by value.
+      const radius = currentParams.radius;
+      currentParams = next;
+      if (next.radius === radius) return;
+      plan = planConvolution(cols, rows, next.radius);
+      convolve();
+    },
+    get boundary() { return currentBoundary; },
+    set boundary(next: Boundary) {
+      if (next === currentBoundary) return;
+      currentBoundary = next;
+      convolve();
+    },
+    step: (generations = 1) => {
+      const { mu, sigma, dt } = currentParams;
+      for (let g = 0; g < generations; g++) {
+        for (let i = 0; i < front.length; i++) {
+          const value = front[i] + dt * growth(potential[i], mu, sigma);
+          back[i] = value < 0 ? 0 : value > 1 ? 1 : value;
+        }
+        [front, back] = [back, front];
+        convolve();
+        generation++;
+      }
+    },
+    reset: (nextSeed?: Field) => {
+      front.set(nextSeed ? nextSeed.subarray(0, front.length) : randomField(cols, rows, currentParams.radius));
+      convolve();
+      generation = 0;
+    },
+    snapshot: () => ({ cells: front.slice(), generation }),
+    restore: (snapshot) => {
+      front.set(snapshot.cells.subarray(0, front.length));
+      convolve();
+      generation = snapshot.generation;
+    },
+    deposit: (x, y, radius, random = Math.random) => {
+      const r = Math.max(1, radius);
+      for (let oy = -Math.ceil(r); oy <= r; oy++) {
+        for (let ox = -Math.ceil(r); ox <= r; ox++) {
+          const d = (ox * ox + oy * oy) / (r * r);
+          if (d >= 1) continue;
+          const j = resolveCell(x + ox, y + oy, cols, rows, currentBoundary);
+          if (j >= 0) front[j] = Math.min(1, front[j] + (1 - d) * (1 - d) * random());
+        }
+      }
+      convolve();
+    },
+  };
+
+  engine.reset(seed);
+  return engine;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { BOUNDARIES } from './boundary';
+import {
+  buildAliveTable,
+  countNeighborhood,
+  createLifeEngine,
+  randomGrid,
+  type Grid,
+  type LifeEngine,
+} from './life';
+import { NEIGHBORHOOD_KINDS, type Neighborhood } from './neighborhood';
+import { createRandom } from './random';
+
+const LIFE = { birth: [3], survival: [2, 3] };
+
+/** Rows of `#` (alive) and `.` (dead). */
+const parseGrid = (rows: string[]): Grid => Uint8Array.from(rows.join(''), c => (c === '#' ? 1 : 0));
+
+const showGrid = (cells: Grid, cols: number) =>
+  Array.from({ length: cells.length / cols }, (_, y) =>
+    Array.from(cells.subarray(y * cols, (y + 1) * cols), age => (age > 0 ? '#' : '.')).join(''),
+  );
+
+describe('B3/S23', () => {
+  it('flips a blinker every generation', () => {
+    const horizontal = ['.....', '.....', '.###.', '.....', '.....'];
+    const vertical = ['.....', '..#..', '..#..', '..#..', '.....'];
+    const life = createLifeEngine({ cols: 5, rows: 5, rule: LIFE, boundary: 'Dead', seed: parseGrid(horizontal) });
+    life.step();
+    expect(showGrid(life.cells, 5)).toEqual(vertical);
+    life.step();
+    expect(showGrid(life.cells, 5)).toEqual(horizontal);
+  });
+
+  it('moves a glider one cell diagonally every four generations', () => {
+    const life = createLifeEngine({
+      cols: 6,
+      rows: 6,
+      rule: LIFE,
+      seed: parseGrid(['.#....', '..#...', '###...', '......', '......', '......']),
+    });
+    life.step(4);
+    expect(showGrid(life.cells, 6)).toEqual(['......', '..#...', '...#..', '.###..', '......', '......']);
+    // On the torus it comes back around after 4 * 6 generations.
+    life.step(20);
+    expect(showGrid(life.cells, 6)).toEqual(['.#....', '..#...', '###...', '......', '......', '......']);
+  });
+});
+
+describe('paint', () => {
+  const random = createRandom(7);
+  const recounted = (life: LifeEngine, neighborhood: Neighborhood) =>
+    countNeighborhood(life.cells, life.cols, life.rows, new Uint16Array(life.cols * life.rows), life.boundary, buildAliveTable(), neighborhood);
+
+  for (const boundary of BOUNDARIES) {
+    for (const kind of NEIGHBORHOOD_KINDS) {
+      for (const radius of [1, 2, 3]) {
+        it(`keeps neighbor counts exact: ${boundary}, ${kind} r=${radius}`, () => {
+          const neighborhood: Neighborhood = { kind, radius, includeCenter: false };
+          const life = createLifeEngine({
+            cols: 13,
+            rows: 11,
+            rule: { birth: [3], survival: [2, 3], neighborhood },
+            boundary,
+            seed: randomGrid(13, 11, 0.3, random),
+          });
+          for (let i = 0; i < 80; i++) {
+            life.paint([[Math.floor(random() * 13), Math.floor(random() * 11), random() < 0.5 ? 1 : 0]]);
+            expect(life.neighbors).toEqual(recounted(life, neighborhood));
+          }
+        });
+      }
+    }
+  }
+});
+
+describe('paint with several cells', () => {
+  const random = createRandom(11);
+
+  for (const boundary of BOUNDARIES) {
+    for (const radius of [1, 2, 3]) {
+      it(`keeps neighbor counts exact after stamps and sprays: ${boundary}, Hexagonal r=${radius}`, () => {
+        const neighborhood: Neighborhood = { kind: 'Hexagonal', radius, includeCenter: false };
+        const life = createLifeEngine({
+          cols: 40,
+          rows: 30,
+          rule: { birth: [3], survival: [2, 3], neighborhood },
+          boundary,
+          seed: randomGrid(40, 30, 0.3, random),
+        });
+        for (let i = 0; i < 40; i++) {
+          // A few scattered cells, small enough to be refreshed in place rather than recounted.
+          const cells = Array.from({ length: 1 + Math.floor(random() * 5) }, () =>
+            [Math.floor(random() * 40), Math.floor(random() * 30), random() < 0.5 ? 1 : 0] as const,
+          );
+          life.paint(cells);
+          expect(life.neighbors).toEqual(
+            countNeighborhood(life.cells, 40, 30, new Uint16Array(40 * 30), boundary, buildAliveTable(), neighborhood),
+          );
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,400 @@
+// --- 2D Life-like, Generations and Larger-than-Life Automata on a bounded grid ---
+
+import { OUTSIDE_ALIVE, OUTSIDE_DEAD, resolveCell, type Boundary } from './boundary';
+import {
+  isMoore1,
+  MOORE,
+  neighborhoodOffsets,
+  neighborhoodSize,
+  rowSpan,
+  type Neighborhood,
+} from './neighborhood';
+
+/**
+ * Row-major cells (index = y * cols + x); 0 is dead. Under Life-like rules a
+ * live cell holds its age, 1..MAX_AGE. Under Generations rules it holds its
+ * state: 1 is alive and 2..states-1 are decaying.
+ */
+export type Grid = Uint8Array;
+
+export interface LifeRule {
+  birth: number[];
+  survival: number[];
+  /** Generations state count; 2 (the default) is a plain Life-like rule. */
+  states?: number;
+  /** Which cells are counted; the radius-1 Moore neighborhood when omitted. */
+  neighborhood?: Neighborhood;
+}
+
+export interface LifeOptions {
+  cols: number;
+  rows: number;
+  rule: LifeRule;
+  boundary?: Boundary;
+  seed?: Grid;
+}
+
+export interface LifeSnapshot {
+  readonly cells: Grid;
+  readonly generation: number;
+}
+
+export interface LifeEngine {
+  readonly cols: number;
+  readonly rows: number;
+  readonly generation: number;
+  /** Front buffer of cell ages or states. Swapped on every step, so don't hold on to it. */
+  readonly cells: Grid;
+  /** Live neighbor count of every cell in `cells` under the rule's neighborhood; decaying cells don't count. */
+  readonly neighbors: Uint16Array;
+  rule: LifeRule;
+  boundary: Boundary;
+  step: (generations?: number) => void;
+  reset: (seed?: Grid) => void;
+  toggle: (x: number, y: number) => void;
+  /** Sets each [x, y, state]; off-grid cells are skipped. */
+  paint: (cells: Iterable<readonly [number, number, number]>) => void;
+  /** Copies the cells, ages included. */
+  snapshot: () => LifeSnapshot;
+  restore: (snapshot: LifeSnapshot) => void;
+}
+
+export const MAX_AGE = 100;
+
+const sameCounts = (a: number[], b: number[]) => a.length === b.length && a.every((n, i) => n === b[i]);
+
+/** Compares by value: rules that crossed a worker boundary are copies. */
+export const sameRule = (a: LifeRule, b: LifeRule) => {
+  const m = a.neighborhood ?? MOORE;
+  const n = b.neighborhood ?? MOORE;
+  return (
+    sameCounts(a.birth, b.birth) &&
+    sameCounts(a.survival, b.survival) &&
+    (a.states ?? 2) === (b.states ?? 2) &&
+    m.kind === n.kind &&
+    m.radius === n.radius &&
+    m.includeCenter === n.includeCenter
+  );
+};
+
+export const randomGrid = (cols: number, rows: number, density = 0.15, random: () => number = Math.random): Grid => {
+  const grid = new Uint8Array(cols * rows);
+  for (let i = 0; i < grid.length; i++) grid[i] = random() < density ? 1 : 0;
+  return grid;
+};
+
+/** Wide neighborhoods need denser soups before any cell reaches their birth counts. */
+export const soupDensity = (neighborhood: Neighborhood) => (neighborhood.radius > 1 ? 0.45 : 0.15);
+
+export const emptyGrid = (cols: number, rows: number): Grid => new Uint8Array(cols * rows);
+
+/** Lookup table indexed by neighbor count: 1 if the count is listed in `counts`. */
+export const buildRuleTable = (counts: number[], size = 9) => {
+  const table = new Uint8Array(size);
+  counts.forEach(n => { if (n >= 0 && n < size) table[n] = 1; });
+  return table;
+};
+
+/** Maps a cell value to 1 if it counts as a live neighbor. */
+export type AliveTable = Uint8Array;
+
+export const buildAliveTable = (states = 2): AliveTable => {
+  const table = new Uint8Array(256);
+  if (states > 2) table[1] = 1;
+  else table.fill(1, 1);
+  return table;
+};
+
+const LIFE_ALIVE = buildAliveTable();
+
+/** 1 if the cell at (x, y) is alive, resolving off-grid coordinates through `boundary`. */
+export const aliveAt = (
+  cells: Grid, x: number, y: number, cols: number, rows: number, boundary: Boundary, alive: AliveTable = LIFE_ALIVE,
+) => {
+  const i = resolveCell(x, y, cols, rows, boundary);
+  if (i === OUTSIDE_ALIVE) return 1;
+  if (i === OUTSIDE_DEAD) return 0;
+  return alive[cells[i]];
+};
+
+const fillRow = (
+  cells: Grid, cols: number, rows: number, y: number, boundary: Boundary, alive: AliveTable, out: Uint8Array,
+) => {
+  if (y >= 0 && y < rows) {
+    const row = y * cols;
+    for (let x = 0; x < cols; x++) out[x] = alive[cells[row + x]];
+  } else {
+    for (let x = 0; x < cols; x++) out[x] = aliveAt(cells, x, y, cols, rows, boundary, alive);
+  }
+  return out;
+};
+
+/** Neighbor count of a single cell. */
+export const neighborCount = (
+  cells: Grid, x: number, y: number, cols: number, rows: number, boundary: Boundary,
+  alive: AliveTable = LIFE_ALIVE, neighborhood: Neighborhood = MOORE,
+  offsets: [number, number][] = neighborhoodOffsets(neighborhood),
+) => {
+  let neighbors = neighborhood.includeCenter ? alive[cells[y * cols + x]] : 0;
+  for (const [dx, dy] of offsets) {
+    neighbors += aliveAt(cells, x + dx, y + dy, cols, rows, boundary, alive);
+  }
+  return neighbors;
+};
+
+/**
+ * Fills `out` with the Moore neighbor count of every cell using per-row
+ * column sums, so each cell is read three times instead of eight. Only the
+ * ghost rows and columns outside the grid go through `boundary`.
+ */
+export const countNeighbors = (
+  cells: Grid, cols: number, rows: number, out: Uint16Array, boundary: Boundary = 'Torus', alive: AliveTable = LIFE_ALIVE,
+) => {
+  // colSum[x + 1] is the live count of column x over rows y-1..y+1; the ends are ghost columns.
+  const colSum = new Uint16Array(cols + 2);
+  let above = fillRow(cells, cols, rows, -1, boundary, alive, new Uint8Array(cols));
+  let middle = fillRow(cells, cols, rows, 0, boundary, alive, new Uint8Array(cols));
+  let below = new Uint8Array(cols);
+  for (let y = 0; y < rows; y++) {
+    const row = y * cols;
+    fillRow(cells, cols, rows, y + 1, boundary, alive, below);
+    for (let x = 0; x < cols; x++) colSum[x + 1] = above[x] + middle[x] + below[x];
+    colSum[0] = 0;
+    colSum[cols + 1] = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      colSum[0] += aliveAt(cells, -1, y + dy, cols, rows, boundary, alive);
+      colSum[cols + 1] += aliveAt(cells, cols, y + dy, cols, rows, boundary, alive);
+    }
+    for (let x = 0; x < cols; x++) {
+      out[row + x] = colSum[x] + colSum[x + 1] + colSum[x + 2] - middle[x];
+    }
+    [above, middle, below] = [middle, below, above];
+  }
+  return out;
+};
+
+/** Reusable buffers for countNeighborhood, sized for one grid. */
+export interface NeighborhoodScratch {
+  padded: Uint8Array;
+  sums: Int32Array;
+}
+
+/**
+ * General form of countNeighbors for any neighborhood and radius. The grid is
+ * copied into a buffer with a `radius`-wide ghost border resolved through
+ * `boundary`, then Moore blocks are read from a summed-area table in O(1)
+ * per cell and sheared shapes from per-row prefix sums in O(radius).
+ */
+export const countNeighborhood = (
+  cells: Grid, cols: number, rows: number, out: Uint16Array, boundary: Boundary,
+  alive: AliveTable, neighborhood: Neighborhood, scratch?: NeighborhoodScratch,
+) => {
+  const r = neighborhood.radius;
+  const w = cols + 2 * r;
+  const h = rows + 2 * r;
+  const padded = scratch?.padded.length === w * h ? scratch.padded : new Uint8Array(w * h);
+  const sums = scratch?.sums.length === (w + 1) * (h + 1) ? scratch.sums : new Int32Array((w + 1) * (h + 1));
+  if (scratch) Object.assign(scratch, { padded, sums });
+
+  for (let py = 0; py < h; py++) {
+    const y = py - r;
+    const inside = y >= 0 && y < rows;
+    for (let px = 0; px < w; px++) {
+      const x = px - r;
+      padded[py * w + px] = inside && x >= 0 && x < cols
+        ? alive[cells[y * cols + x]]
+        : aliveAt(cells, x, y, cols, rows, boundary, alive);
+    }
+  }
+
+  const stride = w + 1;
+  if (neighborhood.kind === 'Moore') {
+    // sums[(y + 1) * stride + (x + 1)] = live cells in padded[0..y][0..x].
+    for (let py = 0; py < h; py++) {
+      let rowTotal = 0;
+      for (let px = 0; px < w; px++) {
+        rowTotal += padded[py * w + px];
+        sums[(py + 1) * stride + px + 1] = sums[py * stride + px + 1] + rowTotal;
+      }
+    }
+    const span = 2 * r + 1;
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const total = sums[(y + span) * stride + x + span] - sums[y * stride + x + span]
+          - sums[(y + span) * stride + x] + sums[y * stride + x];
+        out[y * cols + x] = neighborhood.includeCenter ? total : total - padded[(y + r) * w + x + r];
+      }
+    }
+  } else {
+    // sums[py * stride + (x + 1)] = live cells in padded row py, columns 0..x.
+    for (let py = 0; py < h; py++) {
+      sums[py * stride] = 0;
+      for (let px = 0; px < w; px++) sums[py * stride + px + 1] = sums[py * stride + px] + padded[py * w + px];
+    }
+    const acc = new Int32Array(cols);
+    for (let y = 0; y < rows; y++) {
+      acc.fill(0);
+      // Row by row keeps the prefix-sum reads sequential.
+      for (let dy = -r; dy <= r; dy++) {
+        const [lo, hi] = rowSpan(neighborhood, dy);
+        const row = (y + r + dy) * stride + r;
+        for (let x = 0; x < cols; x++) acc[x] += sums[row + x + hi + 1] - sums[row + x + lo];
+      }
+      for (let x = 0; x < cols; x++) {
+        out[y * cols + x] = neighborhood.includeCenter ? acc[x] : acc[x] - padded[(y + r) * w + x + r];
+      }
+    }
+  }
+  return out;
+};
+
+/** Writes the next generation of `cells` into `next`, given the cached `neighbors` of `cells`. */
+export const stepLife = (cells: Grid, neighbors: Uint16Array, birth: Uint8Array, survival: Uint8Array, next: Grid) => {
+  for (let i = 0; i < cells.length; i++) {
+    const age = cells[i];
+    const n = neighbors[i];
+    if (age > 0) {
+      next[i] = survival[n] ? (age < MAX_AGE ? age + 1 : MAX_AGE) : 0;
+    } else {
+      next[i] = birth[n];
+    }
+  }
+  return next;
+};
+
+/**
+ * Generations step: a live cell that fails survival starts decaying through
+ * states 2..states-1 and then dies; only dead cells can be born.
+ */
+export const stepGenerations = (
+  cells: Grid, neighbors: Uint16Array, birth: Uint8Array, survival: Uint8Array, states: number, next: Grid,
+) => {
+  for (let i = 0; i < cells.length; i++) {
+    const state = cells[i];
+    if (state === 0) {
+      next[i] = birth[neighbors[i]];
+    } else if (state === 1 && survival[neighbors[i]]) {
+      next[i] = 1;
+    } else {
+      next[i] = state + 1 < states ? state + 1 : 0;
+    }
+  }
+  return next;
+};
+
+export const createLifeEngine = ({ cols, rows, rule, boundary = 'Torus', seed }: LifeOptions): LifeEngine => {
+  let front: Grid = emptyGrid(cols, rows);
+  let back: Grid = emptyGrid(cols, rows);
+  const neighbors = new Uint16Array(cols * rows);
+  let currentRule = rule;
+  let currentBoundary = boundary;
+  let birth: Uint8Array;
+  let survival: Uint8Array;
+  let states = rule.states ?? 2;
+  let alive = buildAliveTable(states);
+  let neighborhood = rule.neighborhood ?? MOORE;
+  let offsets = neighborhoodOffsets(neighborhood);
+  let generation = 0;
+  const scratch: NeighborhoodScratch = { padded: new Uint8Array(0), sums: new Int32Array(0) };
+
+  const buildTables = () => {
+    const size = neighborhoodSize(neighborhood) + 1;
+    birth = buildRuleTable(currentRule.birth, size);
+    survival = buildRuleTable(currentRule.survival, size);
+  };
+  buildTables();
+
+  const recount = () => isMoore1(neighborhood)
+    ? countNeighbors(front, cols, rows, neighbors, currentBoundary, alive)
+    : countNeighborhood(front, cols, rows, neighbors, currentBoundary, alive, neighborhood, scratch);
+
+  const engine: LifeEngine = {
+    cols,
+    rows,
+    neighbors,
+    get generation() { return generation; },
+    get cells() { return front; },
+    get rule() { return currentRule; },
+    set rule(next: LifeRule) {
+      if (sameRule(next, currentRule)) return;
+      currentRule = next;
+      const nextNeighborhood = next.neighborhood ?? MOORE;
+      const reshaped = nextNeighborhood.kind !== neighborhood.kind
+        || nextNeighborhood.radius !== neighborhood.radius
+        || nextNeighborhood.includeCenter !== neighborhood.includeCenter;
+      neighborhood = nextNeighborhood;
+      if (reshaped) offsets = neighborhoodOffsets(neighborhood);
+      buildTables();
+      if ((next.states ?? 2) !== states) {
+        // Ages and decay states don't translate into each other: keep live cells, drop the rest.
+        for (let i = 0; i < front.length; i++) front[i] = alive[front[i]];
+        states = next.states ?? 2;
+        alive = buildAliveTable(states);
+        recount();
+      } else if (reshaped) {
+        recount();
+      }
+    },
+    get boundary() { return currentBoundary; },
+    set boundary(next: Boundary) {
+      if (next === currentBoundary) return;
+      currentBoundary = next;
+      recount();
+    },
+    step: (generations = 1) => {
+      for (let g = 0; g < generations; g++) {
+        if (states > 2) stepGenerations(front, neighbors, birth, survival, states, back);
+        else stepLife(front, neighbors, birth, survival, back);
+        [front, back] = [back, front];
+        recount();
+        generation++;
+      }
+    },
+    reset: (nextSeed?: Grid) => {
+      front.set(nextSeed ? nextSeed.subarray(0, front.length) : randomGrid(cols, rows, soupDensity(neighborhood)));
+      recount();
+      generation = 0;
+    },
+    snapshot: () => ({ cells: front.slice(), generation }),
+    restore: (snapshot) => {
+      front.set(snapshot.cells.subarray(0, front.length));
+      recount();
+      generation = snapshot.generation;
+    },
+    toggle: (x, y) => {
+      if (x < 0 || x >= cols || y < 0 || y >= rows) return;
+      engine.paint([[x, y, front[y * cols + x] > 0 ? 0 : 1]]);
+    },
+    paint: (cells) => {
+      const changed: [number, number][] = [];
+      for (const [x, y, state] of cells) {
+        if (x < 0 || x >= cols || y < 0 || y >= rows) continue;
+        front[y * cols + x] = state;
+        changed.push([x, y]);
+      }
+      // Mirror and Klein edges flip the hex shear, so a cell can see (x, y) without (x, y) seeing it.
+      // Across a mirror those cells still lie in the Moore block around (x, y); across the Klein seam they don't.
+      const sheared = neighborhood.kind === 'Hexagonal' && (currentBoundary === 'Mirror' || currentBoundary === 'Klein');
+      const reach = sheared ? neighborhoodOffsets({ kind: 'Moore', radius: neighborhood.radius, includeCenter: false }) : offsets;
+      // Big edits are also cheaper to recount in one pass than to refresh cell by cell.
+      if ((sheared && currentBoundary === 'Klein') || changed.length * (reach.length + 1) > cols * rows) {
+        recount();
+        return;
+      }
+      // Otherwise every cell that can see (x, y) is one of the cells (x, y) reaches through the boundary.
+      for (const [x, y] of changed) {
+        for (const [dx, dy] of [[0, 0], ...reach]) {
+          const j = resolveCell(x + dx, y + dy, cols, rows, currentBoundary);
+          if (j >= 0) {
+            neighbors[j] = neighborCount(
+              front, j % cols, Math.floor(j / cols), cols, rows, currentBoundary, alive, neighborhood, offsets,
+            );
+          }
+        }
+      }
+    },
+  };
+
+  engine.reset(seed);
+  return engine;
+};
@@ -0,0 +1,57 @@
+// --- Neighborhood Geometry ---
+
+/**
+ * Moore is the (2r+1)^2 square, VonNeumann the |dx| + |dy| <= r diamond.
+ * Hexagonal is emulated on the square grid the way Golly does it: each row
+ * is sheared so the NE and SW corners of the Moore block are left out.
+ */
+export type NeighborhoodKind = 'Moore' | 'VonNeumann' | 'Hexagonal';
+
+export interface Neighborhood {
+  kind: NeighborhoodKind;
+  radius: number;
+  /** Larger-than-Life `M1`: the cell counts itself. */
+  includeCenter: boolean;
+}
+
+export const NEIGHBORHOOD_KINDS: NeighborhoodKind[] = ['Moore', 'VonNeumann', 'Hexagonal'];
+
+export const MAX_RADIUS = 10;
+
+export const MOORE: Neighborhood = { kind: 'Moore', radius: 1, includeCenter: false };
+
+export const isMoore1 = (n: Neighborhood) => n.kind === 'Moore' && n.radius === 1 && !n.includeCenter;
+
+/** Inclusive dx range covered on row offset `dy` (|dy| <= radius). */
+export const rowSpan = ({ kind, radius: r }: Neighborhood, dy: number): [number, number] => {
+  switch (kind) {
+    case 'VonNeumann':
+      return [-(r - Math.abs(dy)), r - Math.abs(dy)];
+    case 'Hexagonal':
+      return [Math.max(-r, dy - r), Math.min(r, dy + r)];
+    default:
+      return [-r, r];
+  }
+};
+
+/** Every (dx, dy) in the neighborhood, center excluded. */
+export const neighborhoodOffsets = (n: Neighborhood) => {
+  const offsets: [number, number][] = [];
+  for (let dy = -n.radius; dy <= n.radius; dy++) {
+    const [lo, hi] = rowSpan(n, dy);
+    for (let dx = lo; dx <= hi; dx++) {
+      if (dx !== 0 || dy !== 0) offsets.push([dx, dy]);
+    }
+  }
+  return offsets;
+};
+
+/** Highest possible live count, including the center when it counts. */
+export const neighborhoodSize = (n: Neighborhood) => {
+  let size = n.includeCenter ? 1 : 0;
+  for (let dy = -n.radius; dy <= n.radius; dy++) {
+    const [lo, hi] = rowSpan(n, dy);
+    size += hi - lo + 1;
+  }
+  return size - 1;
+};
@@ -0,0 +1,18 @@
+// --- Seeded PRNG ---
+
+/** Seeds are kept short enough to read out and retype. */
+export const MAX_SEED = 999999;
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/** mulberry32: one 32-bit word of state, so the same seed always replays the same sequence. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
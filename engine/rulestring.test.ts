@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { MOORE } from './neighborhood';
+import { formatRule, parseRule, RuleParseError } from './rulestring';
+
+const BOSCO = 'R5,C0,M1,S34..58,B34..45,NM';
+
+describe('parseRule', () => {
+  it.each([
+    ['B3/S23', [3], [2, 3], 2],
+    ['23/3', [3], [2, 3], 2],
+    ['s23/b3', [3], [2, 3], 2],
+    ['B36/S23', [3, 6], [2, 3], 2],
+    ['B2/S/C3', [2], [], 3],
+    ['/2/3', [2], [], 3],
+  ])('reads %s', (text, birth, survival, states) => {
+    expect(parseRule(text)).toEqual({ birth, survival, states, neighborhood: MOORE });
+  });
+
+  it('reads the H and V suffixes as radius-1 neighborhoods', () => {
+    expect(parseRule('B2/S34H').neighborhood).toEqual({ ...MOORE, kind: 'Hexagonal' });
+    expect(parseRule('B1/S1V').neighborhood).toEqual({ ...MOORE, kind: 'VonNeumann' });
+  });
+
+  it("reads Bosco's rule", () => {
+    const rule = parseRule(BOSCO);
+    expect(rule.neighborhood).toEqual({ kind: 'Moore', radius: 5, includeCenter: true });
+    expect(rule.states).toBe(2);
+    expect(rule.survival).toEqual(Array.from({ length: 25 }, (_, i) => 34 + i));
+    expect(rule.birth).toEqual(Array.from({ length: 12 }, (_, i) => 34 + i));
+  });
+
+  it.each([
+    '',
+    'Conway',
+    'B3x/S23',
+    'B9/S23',
+    'B3/S23/C1',
+    'R5,C0,M1,S58..34,B34..45,NM',
+    'R5x,C0,M1,S34..58,B34..45,NM',
+    'R5,C3x,M1,S34..58,B34..45,NM',
+    'R5,C0,M2,S34..58,B34..45,NM',
+    'R5,C0,M1,S34..58,B34..45,NX',
+    'R5,C0,M1,S34..200,B34..45,NM',
+  ])('rejects "%s"', text => {
+    expect(() => parseRule(text)).toThrow(RuleParseError);
+  });
+});
+
+describe('formatRule', () => {
+  it.each(['B3/S23', 'B36/S23', 'B2/S/C3', 'B2/S34H', 'B1/S1V', 'B2/S345/C4', BOSCO, 'R2,C5,M0,S3..5,8,B4,NN'])(
+    'round-trips %s',
+    text => {
+      expect(formatRule(parseRule(text))).toBe(text);
+    },
+  );
+
+  it('writes other notations canonically', () => {
+    expect(formatRule(parseRule('23/3'))).toBe('B3/S23');
+    expect(formatRule(parseRule('/2/3'))).toBe('B2/S/C3');
+  });
+});
@@ -0,0 +1,179 @@
+// --- Rulestrings (B/S, S/B, Generations and Larger-than-Life notation) ---
+
+import {
+  isMoore1,
+  MAX_RADIUS,
+  MOORE,
+  neighborhoodSize,
+  type Neighborhood,
+  type NeighborhoodKind,
+} from './neighborhood';
+
+/**
+ * Outer-totalistic 2D rule. `states` is 2 for Life-like rules; Generations
+ * rules add `states - 2` decaying states between alive and dead.
+ */
+export interface RuleSpec {
+  birth: number[];
+  survival: number[];
+  states: number;
+  neighborhood: Neighborhood;
+}
+
+export class RuleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleParseError';
+  }
+}
+
+export const MAX_STATES = 256;
+
+const SUFFIX_KINDS: Record<string, NeighborhoodKind> = { V: 'VonNeumann', H: 'Hexagonal' };
+const LTL_KINDS: Record<string, NeighborhoodKind> = { M: 'Moore', N: 'VonNeumann', H: 'Hexagonal' };
+
+const checkCounts = (counts: number[], label: string, neighborhood: Neighborhood) => {
+  const max = neighborhoodSize(neighborhood);
+  const bad = counts.find(n => n > max);
+  if (bad !== undefined) throw new RuleParseError(`${label} count ${bad} is out of range 0-${max} for this neighborhood.`);
+  return [...new Set(counts)].sort((a, b) => a - b);
+};
+
+/** Whole-token integers only; `parseInt` would read `5x` as 5. */
+const parseCount = (text: string, token: string) => {
+  if (!/^\d+$/.test(text)) throw new RuleParseError(`"${token}" needs a whole number.`);
+  return parseInt(text);
+};
+
+const parseStates = (text: string) => {
+  const states = /^\d+$/.test(text) ? parseInt(text) : NaN;
+  if (!(states >= 2 && states <= MAX_STATES)) {
+    throw new RuleParseError(`State count must be between 2 and ${MAX_STATES}, got "${text}".`);
+  }
+  return states;
+};
+
+const digits = (text: string) => text.split('').map(Number);
+
+/** `R5,C0,M1,S34..58,B34..45,NM`; bare values or ranges after S or B extend that list. */
+const parseLargerThanLife = (rule: string): RuleSpec => {
+  let radius = 1;
+  let states = 2;
+  let includeCenter = false;
+  let kind: NeighborhoodKind = 'Moore';
+  const lists: Record<'S' | 'B', number[]> = { S: [], B: [] };
+  let current: 'S' | 'B' | null = null;
+
+  for (const token of rule.split(',')) {
+    const match = token.match(/^([RCMSBN]?)(.*)$/)!;
+    const [, tag, value] = match;
+    if (tag === 'R') {
+      radius = parseCount(value, token);
+      if (!(radius >= 1 && radius <= MAX_RADIUS)) throw new RuleParseError(`Radius must be between 1 and ${MAX_RADIUS}.`);
+    } else if (tag === 'C') {
+      states = value === '0' ? 2 : parseStates(value);
+    } else if (tag === 'M') {
+      if (value !== '0' && value !== '1') throw new RuleParseError('M must be 0 or 1.');
+      includeCenter = value === '1';
+    } else if (tag === 'N') {
+      if (!LTL_KINDS[value]) throw new RuleParseError(`Unknown neighborhood "N${value}"; use NM, NN or NH.`);
+      kind = LTL_KINDS[value];
+    } else {
+      if (tag === 'S' || tag === 'B') current = tag;
+      if (!current) throw new RuleParseError(`Unexpected "${token}" before any S or B range.`);
+      if (value === '') continue;
+      const range = value.match(/^(\d+)(?:\.\.(\d+))?$/);
+      if (!range) throw new RuleParseError(`"${token}" is not a count or a lo..hi range.`);
+      const lo = parseInt(range[1]);
+      const hi = range[2] !== undefined ? parseInt(range[2]) : lo;
+      if (hi < lo) throw new RuleParseError(`"${token}" runs backwards; write the range as ${hi}..${lo}.`);
+      for (let n = lo; n <= hi; n++) lists[current].push(n);
+    }
+  }
+
+  const neighborhood = { kind, radius, includeCenter };
+  return {
+    birth: checkCounts(lists.B, 'Birth', neighborhood),
+    survival: checkCounts(lists.S, 'Survival', neighborhood),
+    states,
+    neighborhood,
+  };
+};
+
+/**
+ * Accepts `B3/S23`, `S23/B3`, `23/3` (S/B), Generations rules written as
+ * `B2/S/C3` or `/2/3` (S/B/C), an `H` or `V` suffix for the hexagonal or von
+ * Neumann neighborhood, and Larger-than-Life rules like
+ * `R5,C0,M1,S34..58,B34..45,NM`. Letters are case-insensitive; throws RuleParseError.
+ */
+export const parseRule = (text: string): RuleSpec => {
+  let rule = text.trim().toUpperCase().replace(/\s+/g, '');
+  if (!rule) throw new RuleParseError('Rule is empty.');
+  if (/^R\d/.test(rule)) return parseLargerThanLife(rule);
+
+  let neighborhood = MOORE;
+  const suffix = rule.match(/[HV]$/);
+  if (suffix) {
+    neighborhood = { ...MOORE, kind: SUFFIX_KINDS[suffix[0]] };
+    rule = rule.slice(0, -1);
+  }
+
+  let birth: string | undefined;
+  let survival: string | undefined;
+  let states: string | undefined;
+  const tagged = rule.match(/^(?:B([0-9]*)\/?S([0-9]*)|S([0-9]*)\/?B([0-9]*))(?:\/C?([0-9]+))?$/);
+  const numeric = rule.match(/^([0-9]*)\/([0-9]*)(?:\/([0-9]+))?$/);
+  if (tagged) {
+    birth = tagged[1] ?? tagged[4];
+    survival = tagged[2] ?? tagged[3];
+    states = tagged[5];
+  } else if (numeric) {
+    [, survival, birth, states] = numeric;
+  } else {
+    throw new RuleParseError(`"${text.trim()}" is not a B/S, S/B, Generations or Larger-than-Life rulestring.`);
+  }
+
+  return {
+    birth: checkCounts(digits(birth), 'Birth', neighborhood),
+    survival: checkCounts(digits(survival), 'Survival', neighborhood),
+    states: states ? parseStates(states) : 2,
+    neighborhood,
+  };
+};
+
+/** Compresses sorted counts into `a..b` runs for Larger-than-Life notation. */
+export const formatRanges = (counts: number[], separator = '..') => {
+  const sorted = [...new Set(counts)].sort((a, b) => a - b);
+  const runs: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    runs.push(j > i ? `${sorted[i]}${separator}${sorted[j]}` : `${sorted[i]}`);
+    i = j;
+  }
+  return runs;
+};
+
+/**
+ * Canonical form: B/S (with `/C` for Generations and `H`/`V` for radius-1
+ * hexagonal or von Neumann), or Larger-than-Life notation for anything wider.
+ */
+export const formatRule = ({ birth, survival, states, neighborhood }: RuleSpec) => {
+  const { kind, radius, includeCenter } = neighborhood;
+  if (radius > 1 || includeCenter) {
+    const tag = Object.keys(LTL_KINDS).find(k => LTL_KINDS[k] === kind);
+    const list = (letter: string, counts: number[]) => [letter + (formatRanges(counts)[0] ?? ''), ...formatRanges(counts).slice(1)];
+    return [
+      `R${radius}`,
+      `C${states > 2 ? states : 0}`,
+      `M${includeCenter ? 1 : 0}`,
+      ...list('S', survival),
+      ...list('B', birth),
+      `N${tag}`,
+    ].join(',');
+  }
+  const sorted = (counts: number[]) => [...new Set(counts)].sort((a, b) => a - b).join('');
+  const base = `B${sorted(birth)}/S${sorted(survival)}`;
+  const suffix = isMoore1(neighborhood) ? '' : kind === 'VonNeumann' ? 'V' : 'H';
+  return (states > 2 ? `${base}/C${states}` : base) + suffix;
+};
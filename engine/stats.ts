@@ -0,0 +1,143 @@
+// --- Population statistics of a grid or row ---
+
+/** Smallest rectangle of cells holding every live cell. */
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GridStats {
+  population: number;
+  /** Cells born and cells that died since the previous sample; null with nothing to compare against. */
+  births: number | null;
+  deaths: number | null;
+  /** Live fraction of the grid, or of the bounding box when the universe has no edges. */
+  density: number;
+  /** Live cells per age bucket (see `ageBucket`); empty when cells don't carry ages. */
+  ages: number[];
+  bounds: Bounds | null;
+}
+
+/** Buckets double in width: 1, 2-3, 4-7, ... up to MAX_AGE. */
+export const AGE_BUCKETS = 7;
+
+export const ageBucket = (age: number) => Math.min(AGE_BUCKETS - 1, Math.floor(Math.log2(Math.max(1, age))));
+
+export const ageBucketLabel = (bucket: number) =>
+  bucket === 0 ? '1' : bucket === AGE_BUCKETS - 1 ? `${2 ** bucket}+` : `${2 ** bucket}-${2 ** (bucket + 1) - 1}`;
+
+export interface MeasureOptions {
+  /** Whether a cell value counts as alive; any non-zero value by default. */
+  alive?: (value: number) => boolean;
+  /** Cell values are ages, so fill the age histogram. */
+  ages?: boolean;
+}
+
+/** Measures a row-major grid; pass `previous` (same size) to count births and deaths. */
+export const measureGrid = (
+  cells: ArrayLike<number>,
+  cols: number,
+  previous: ArrayLike<number> | null = null,
+  { alive = value => value > 0, ages = false }: MeasureOptions = {},
+): GridStats => {
+  const histogram = ages ? new Array<number>(AGE_BUCKETS).fill(0) : [];
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  for (let i = 0; i < cells.length; i++) {
+    const live = alive(cells[i]);
+    if (previous) {
+      const was = alive(previous[i]);
+      if (live && !was) births++;
+      else if (was && !live) deaths++;
+    }
+    if (!live) continue;
+    population++;
+    if (ages) histogram[ageBucket(cells[i])]++;
+    const x = i % cols;
+    const y = Math.floor(i / cols);
+    if (x < x0) x0 = x;
+    if (x > x1) x1 = x;
+    if (y < y0) y0 = y;
+    if (y > y1) y1 = y;
+  }
+  return {
+    population,
+    births: previous ? births : null,
+    deaths: previous ? deaths : null,
+    density: cells.length ? population / cells.length : 0,
+    ages: histogram,
+    bounds: population ? { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 } : null,
+  };
+};
+
+// --- Time series ---
+
+/** One generation's stats, flattened for charting and CSV; null where that generation wasn't fully measured. */
+export interface StatsSample {
+  generation: number;
+  population: number;
+  births: number | null;
+  deaths: number | null;
+  density: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+export const toSample = (generation: number, { population, births, deaths, density, bounds }: GridStats): StatsSample => ({
+  generation,
+  population,
+  births,
+  deaths,
+  density,
+  width: bounds?.width ?? 0,
+  height: bounds?.height ?? 0,
+});
+
+/**
+ * Population, births and deaths of a row-major grid without the bounds or
+ * age histogram, cheap enough to take every generation. `generations`
+ * counts only state 1 as alive, like Generations rules.
+ */
+export const sampleGrid = (
+  generation: number,
+  cells: ArrayLike<number>,
+  previous: ArrayLike<number> | null = null,
+  generations = false,
+): StatsSample => {
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+  for (let i = 0; i < cells.length; i++) {
+    const live = generations ? cells[i] === 1 : cells[i] > 0;
+    if (live) population++;
+    if (!previous) continue;
+    const was = generations ? previous[i] === 1 : previous[i] > 0;
+    if (live && !was) births++;
+    else if (was && !live) deaths++;
+  }
+  return {
+    generation,
+    population,
+    births: previous ? births : null,
+    deaths: previous ? deaths : null,
+    density: cells.length ? population / cells.length : 0,
+    width: null,
+    height: null,
+  };
+};
+
+/** Header plus one row per sample; unknown values are left empty. */
+export const samplesToCsv = (samples: StatsSample[]) =>
+  [
+    'generation,population,births,deaths,density,width,height',
+    ...samples.map(s =>
+      [s.generation, s.population, s.births ?? '', s.deaths ?? '', s.density?.toFixed(6) ?? '', s.width ?? '', s.height ?? ''].join(','),
+    ),
+  ].join('\n');
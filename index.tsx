@@ -1,265 +1,818 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import {
+  BOUNDARIES,
+  elementaryRule,
+  formatRanges,
+  formatRule,
+  isMoore1,
+  MAX_KERNEL_RADIUS,
+  MAX_RADIUS,
+  MAX_SEED,
+  MIN_KERNEL_RADIUS,
+  MOORE,
+  NEIGHBORHOOD_KINDS,
+  neighborhoodSize,
+  parseRule,
+  randomSeed,
+  samplesToCsv,
+  soupDensity,
+  type Boundary,
+  type LeniaParams,
+  type Neighborhood,
+  type NeighborhoodKind,
+  type GridStats,
+  type RuleSpec,
+  type Settled,
+  type StatsSample,
+  type WolframRule,
+} from './engine';
+import type { Config, ColorMode, GridStyle, Mode, Palette, SettlePolicy, Tool, Universe } from './types';
+import { decodePermalink, encodePermalink } from './permalink';
+import { BUILTIN_PALETTES, hexToRgb, loadUserPalettes, saveUserPalettes } from './palettes';
+import {
+  BUILTIN_LIBRARY,
+  IDENTITY,
+  loadUserLibrary,
+  orientPattern,
+  saveUserLibrary,
+  type LibraryEntry,
+} from './patterns/library';
+import { createSimulationClient, type SimulationClient } from './simulation/client';
+import type { CensusCount, CensusView, Rect, RendererBackend, SimulationCommand } from './simulation/protocol';
+import { gridSize } from './simulation/renderer';
+import {
+  FILE_EXTENSIONS,
+  looksLikePattern,
+  parsePattern,
+  serializePattern,
+  type PatternFormat,
+} from './patterns/formats';
+import { flattenFrame, spacetimeImage } from './media/image';
+import { encodePng } from './media/png';
+import {
+  canRecordWebM,
+  createRecorder,
+  RECORDING_EXTENSIONS,
+  type Recorder,
+  type RecordingFormat,
+} from './media/recorder';
+import CapturePanel from './components/CapturePanel';
+import CensusPanel from './components/CensusPanel';
+import ToolPanel from './components/ToolPanel';
+import PaletteEditor from './components/PaletteEditor';
+import PatternPanel from './components/PatternPanel';
+import RuleEditor from './components/RuleEditor';
+import RowSeedEditor from './components/RowSeedEditor';
+import RuleIconTable from './components/RuleIconTable';
+import StatsPanel from './components/StatsPanel';
+import TimelineBar from './components/TimelineBar';
+import WolframRuleEditor from './components/WolframRuleEditor';
 
-// --- Types ---
-
-type Mode = '1D' | '2D';
-type ColorMode = 'Classic' | 'Age' | 'Density' | 'Cycle';
+// --- Constants & Presets ---
 
-interface Config {
+interface Preset {
+  name: string;
   mode: Mode;
-  rule1D: number;
-  birth2D: number[];
-  survival2D: number[];
-  resolution: number;
-  speed: number;
-  hue: number;
-  colorMode: ColorMode;
-  trails: number; 
+  rulestring?: string;
+  rule1D?: WolframRule;
+  lenia?: LeniaParams;
+  /** Look restored with the rule; unset means base hue on black. */
+  palette?: Palette;
+  background?: string;
+  desc: string;
 }
 
-// --- Constants & Presets ---
+const builtinPalette = (name: string) => BUILTIN_PALETTES.find(p => p.name === name);
+
+const PRESETS: Record<string, Preset> = {
+  GOL: { name: 'Game of Life', mode: '2D', rulestring: 'B3/S23', desc: 'Classic Conway. Stable structures appear Magenta in Age mode, while gliders fly in Cyan.' },
+  HIGHLIFE: { name: 'HighLife', mode: '2D', rulestring: 'B36/S23', desc: 'Life with Replicators. A single small seed can grow into a massive repeating complex.' },
+  MAZE: { name: 'Maze Generator', mode: '2D', rulestring: 'B3/S12345', desc: 'A variation that creates organic, winding labyrinthine structures.' },
+  BRIAN: { name: "Brian's Brain", mode: '2D', rulestring: 'B2/S/C3', desc: 'Every live cell fires once, then rests a beat. Restless sparks crawl in all directions and never settle.' },
+  STARWARS: { name: 'Star Wars', mode: '2D', rulestring: 'B2/S345/C4', desc: 'A Generations rule whose long decay trails leave ships streaking across a dense, glowing battlefield.' },
+  FIREWORKS: { name: 'Fireworks', mode: '2D', rulestring: 'B13/S2/C21', palette: builtinPalette('Magma'), desc: 'Twenty decay states turn every birth into a slowly fading burst of colour.' },
+  BOSCO: { name: "Bosco's Rule", mode: '2D', rulestring: 'R5,C0,M1,S34..58,B34..45,NM', desc: 'Larger than Life: each cell weighs a 121-cell block. Blobby bugs glide through a sea of shifting, amoeba-like masses.' },
+  WORMS: { name: 'Lenia Worms', mode: 'Continuous', lenia: { radius: 15, mu: 0.2, sigma: 0.03, dt: 0.05 }, palette: builtinPalette('Viridis'), background: '#0b0b16', desc: 'Smooth, soft-bodied filaments slither, split and merge. No cell is simply on or off.' },
+  SPOTS: { name: 'Lenia Spots', mode: 'Continuous', lenia: { radius: 10, mu: 0.26, sigma: 0.036, dt: 0.1 }, desc: 'A SmoothLife-style soup of round cells that jostle, bud and dissolve like a living culture.' },
+  LABYRINTH: { name: 'Lenia Labyrinth', mode: 'Continuous', lenia: { radius: 12, mu: 0.3, sigma: 0.05, dt: 0.1 }, desc: 'A wider growth band lets stripes settle into a slowly creeping fingerprint.' },
+  RULE30: { name: 'Rule 30 (Chaos)', mode: '1D', rule1D: elementaryRule(30), desc: 'Stephen Wolfram’s favorite. Simple local rules producing deep, nested chaos.' },
+  RULE110: { name: 'Rule 110 (Logic)', mode: '1D', rule1D: elementaryRule(110), desc: 'Proven to be Turing Complete. This 1D universe can compute any logic gate.' },
+  RULE90: { name: 'Rule 90 (Fractal)', mode: '1D', rule1D: elementaryRule(90), palette: builtinPalette('Monochrome'), desc: 'Mathematical Sierpinski perfection. Every cell is a XOR gate of its neighbors.' },
+  CODE1635: { name: '3-Color Code 1635', mode: '1D', rule1D: { code: 1635n, colors: 3, radius: 1, totalistic: true }, desc: 'A three-color totalistic rule: each cell only sees the sum of its neighborhood, yet a single seed grows an intricate, irregular triangle.' },
+};
+
+const MODE_LABELS: Record<Mode, string> = {
+  '1D': '1D Mode',
+  '2D': '2D Mode',
+  Continuous: 'Continuous',
+};
+
+const NEIGHBORHOOD_LABELS: Record<NeighborhoodKind, string> = {
+  Moore: 'Moore',
+  VonNeumann: 'von Neumann',
+  Hexagonal: 'Hexagonal',
+};
+
+const LENIA_SLIDERS: { key: keyof LeniaParams; label: string; min: number; max: number; step: number; digits: number }[] = [
+  { key: 'radius', label: 'Kernel Radius', min: MIN_KERNEL_RADIUS, max: MAX_KERNEL_RADIUS, step: 1, digits: 0 },
+  { key: 'mu', label: 'Growth Center (μ)', min: 0.05, max: 0.5, step: 0.005, digits: 3 },
+  { key: 'sigma', label: 'Growth Width (σ)', min: 0.005, max: 0.1, step: 0.001, digits: 3 },
+  { key: 'dt', label: 'Time Step (dt)', min: 0.01, max: 0.5, step: 0.01, digits: 2 },
+];
+
+/** Wider neighborhoods are edited as ranges in the rulestring instead. */
+const MAX_COUNT_BUTTONS = 12;
 
-const PRESETS: Record<string, { name: string; mode: Mode; birth?: number[]; survival?: number[]; rule?: number; desc: string }> = {
-  GOL: { name: 'Game of Life', mode: '2D', birth: [3], survival: [2, 3], desc: 'Classic Conway. Stable structures appear Magenta in Age mode, while gliders fly in Cyan.' },
-  HIGHLIFE: { name: 'HighLife', mode: '2D', birth: [3, 6], survival: [2, 3], desc: 'Life with Replicators. A single small seed can grow into a massive repeating complex.' },
-  MAZE: { name: 'Maze Generator', mode: '2D', birth: [3], survival: [1, 2, 3, 4, 5], desc: 'A variation that creates organic, winding labyrinthine structures.' },
-  RULE30: { name: 'Rule 30 (Chaos)', mode: '1D', rule: 30, desc: 'Stephen Wolfram’s favorite. Simple local rules producing deep, nested chaos.' },
-  RULE110: { name: 'Rule 110 (Logic)', mode: '1D', rule: 110, desc: 'Proven to be Turing Complete. This 1D universe can compute any logic gate.' },
-  RULE90: { name: 'Rule 90 (Fractal)', mode: '1D', rule: 90, desc: 'Mathematical Sierpinski perfection. Every cell is a XOR gate of its neighbors.' },
+const SETTLE_LABELS: Record<SettlePolicy, string> = {
+  Continue: 'Continue',
+  Pause: 'Pause',
+  Reseed: 'Reseed',
+  NextPreset: 'Next Preset',
 };
 
-// --- Utilities ---
+/** How long a settled run stays on screen before Reseed or Next Preset moves on. */
+const SETTLE_DELAY_MS = 2000;
 
-const getRuleBits = (rule: number) => {
-  return rule.toString(2).padStart(8, '0').split('').reverse().map(Number);
+/** Samples kept for the population chart and CSV export. */
+const MAX_SAMPLES = 2000;
+
+const BOUNDARY_LABELS: Record<Boundary, string> = {
+  Torus: 'Torus',
+  Dead: 'Dead Edge',
+  Alive: 'Live Edge',
+  Mirror: 'Mirror',
+  Klein: 'Klein',
+};
+
+const DEFAULT_CONFIG: Config = {
+  mode: '2D',
+  rule1D: elementaryRule(110),
+  seed1D: { kind: 'Single', density: 0.5, pattern: '1101', drawn: [] },
+  birth2D: [3],
+  survival2D: [2, 3],
+  states2D: 2,
+  neighborhood2D: MOORE,
+  lenia: { radius: 10, mu: 0.26, sigma: 0.036, dt: 0.1 },
+  universe: 'Bounded',
+  seed: randomSeed(),
+  gridSize: null,
+  density: 0.15,
+  boundary: 'Torus',
+  stepLog2: 0,
+  onSettle: 'Continue',
+  resolution: 8,
+  speed: 15,
+  hue: 180, 
+  colorMode: 'Age',
+  palette: null,
+  background: '#000000',
+  grid: 'Gap',
+  trails: 0.3,
+};
+
+/** The grid the runtime lays out for `config` in this window, for links to replay it elsewhere. */
+const windowGrid = (config: Config) => gridSize(config, window.innerWidth, window.innerHeight);
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Firefox and Safari start the download after this task, so the URL must outlive it.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 };
 
 // --- Components ---
 
 const CellularAutomata: React.FC = () => {
-  const [config, setConfig] = useState<Config>({
-    mode: '2D',
-    rule1D: 110,
-    birth2D: [3],
-    survival2D: [2, 3],
-    resolution: 8,
-    speed: 15,
-    hue: 180, 
-    colorMode: 'Age',
-    trails: 0.3,
-  });
+  // A permalink in the hash overrides the defaults, once, at startup.
+  const [link] = useState(() => decodePermalink(window.location.hash, DEFAULT_CONFIG));
+  const [config, setConfig] = useState<Config>(link.config);
 
-  const [activePreset, setActivePreset] = useState<string | null>('GOL');
+  const [activePreset, setActivePreset] = useState<string | null>(window.location.hash ? null : 'GOL');
   const [isRunning, setIsRunning] = useState(true);
   const [generation, setGeneration] = useState(0);
+  const [timeline, setTimeline] = useState({ first: 0, last: 0, canUndo: false, canRedo: false });
+  const [stats, setStats] = useState<GridStats | null>(null);
+  const [samples, setSamples] = useState<StatsSample[]>([]);
+  const [settled, setSettled] = useState<Settled | null>(null);
+  const [censusView, setCensusView] = useState<CensusView>('Off');
+  const [censusCounts, setCensusCounts] = useState<CensusCount[] | null>(null);
+  const [tool, setTool] = useState<Tool>('Toggle');
+  const [brushSize, setBrushSize] = useState(1);
+  const [library, setLibrary] = useState<LibraryEntry[]>(() => [...BUILTIN_LIBRARY, ...loadUserLibrary()]);
+  const [userPalettes, setUserPalettes] = useState<Palette[]>(loadUserPalettes);
+  const [stamp, setStamp] = useState<LibraryEntry>(BUILTIN_LIBRARY[0]);
+  const [orientation, setOrientation] = useState(IDENTITY);
+  const [recording, setRecording] = useState<{ format: RecordingFormat; recorded: number; total: number } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [renderer, setRenderer] = useState<RendererBackend>('WebGL');
+  const [activeRenderer, setActiveRenderer] = useState<RendererBackend | null>(null);
   const [showControls, setShowControls] = useState(true);
+  const [selection, setSelection] = useState<Rect | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [patternMessage, setPatternMessage] = useState<{ text: string; error: boolean } | null>(
+    link.warning ? { text: link.warning, error: true } : null,
+  );
+  /** The 2D grid holds hand-made cells that its seed can't reproduce, so links carry it as RLE. */
+  const [edited, setEdited] = useState(link.pattern !== undefined);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const gridRef = useRef<number[][]>([]); 
-  const historyRef = useRef<number[][]>([]); 
-  const requestRef = useRef<number>(0);
-  const lastUpdateRef = useRef<number>(0);
-  const cycleHueRef = useRef<number>(0);
-
-  // Initialize Grid
-  const initGrid = (mode: Mode, res: number) => {
-    const cols = Math.ceil(window.innerWidth / res);
-    const rows = Math.ceil(window.innerHeight / res);
-    
-    if (mode === '2D') {
-      gridRef.current = Array.from({ length: rows }, () =>
-        Array.from({ length: cols }, () => (Math.random() > 0.85 ? 1 : 0))
-      );
-    } else {
-      const firstRow = new Array(cols).fill(0);
-      firstRow[Math.floor(cols / 2)] = 1;
-      historyRef.current = [firstRow];
-    }
-    setGeneration(0);
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
-  };
+  const simRef = useRef<SimulationClient | null>(null);
+  const gestureRef = useRef<{ x: number; y: number; distance: number } | null>(null);
+  const selectionStartRef = useRef<{ px: number; py: number } | null>(null);
+  /** State a drag paints into the drawn 1D row, fixed by the cell it started on. */
+  const paintStateRef = useRef<number | null>(null);
+  /** Set once a drag has toggled its first cell; later toggles join the same undo step. */
+  const strokeRef = useRef(false);
+  /** Last config the simulation was sent, so one that went out ahead of its state update isn't posted twice. */
+  const postedConfigRef = useRef(link.config);
+  /** The recording in progress; its encoder starts with the first frame, which sets the size. */
+  const recorderRef = useRef<{
+    format: RecordingFormat;
+    total: number;
+    delay: number;
+    background: [number, number, number];
+    recorder: Recorder | null;
+  } | null>(null);
+
+  const isInfinite = config.mode === '2D' && config.universe === 'Infinite';
 
+  // Boot the simulation once; it owns the canvas from here on.
   useEffect(() => {
-    initGrid(config.mode, config.resolution);
-    const handleResize = () => initGrid(config.mode, config.resolution);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const sim = createSimulationClient(
+      canvas,
+      { width: window.innerWidth, height: window.innerHeight, config, running: isRunning },
+      event => {
+        if (event.type === 'generation') setGeneration(event.generation);
+        if (event.type === 'stats') {
+          setStats(event.stats);
+          if (!event.stats) setSamples([]);
+        }
+        if (event.type === 'samples' && event.samples.length > 0) {
+          // Going back in time rewrites the series from that generation on.
+          const from = event.samples[0].generation;
+          setSamples(current => [...current.filter(s => s.generation < from), ...event.samples].slice(-MAX_SAMPLES));
+        }
+        if (event.type === 'settled') setSettled(event.settled);
+        if (event.type === 'census') setCensusCounts(event.counts);
+        if (event.type === 'renderer') setActiveRenderer(event.backend);
+        if (event.type === 'timeline') {
+          const { first, last, canUndo, canRedo } = event;
+          setTimeline({ first, last, canUndo, canRedo });
+        }
+        if (event.type === 'frame') {
+          const active = recorderRef.current;
+          if (!active) return;
+          const { image, remaining } = event;
+          active.recorder ??= createRecorder(active.format, image.width, image.height, active.delay, active.background);
+          active.recorder.add(image);
+          setRecording({ format: active.format, recorded: active.total - remaining, total: active.total });
+          if (remaining === 0) finishRecording();
+        }
+      },
+    );
+    simRef.current = sim;
+    if (link.pattern) sim.send({ type: 'place', pattern: link.pattern });
+    const handleResize = () => sim.send({ type: 'resize', width: window.innerWidth, height: window.innerHeight });
     window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [config.mode, config.resolution]);
-
-  // Simulation Logic
-  const step = () => {
-    if (config.mode === '2D') {
-      const rows = gridRef.current.length;
-      if (rows === 0) return;
-      const cols = gridRef.current[0].length;
-      
-      const nextGrid = gridRef.current.map((row, y) =>
-        row.map((age, x) => {
-          let neighbors = 0;
-          for (let i = -1; i <= 1; i++) {
-            for (let j = -1; j <= 1; j++) {
-              if (i === 0 && j === 0) continue;
-              const ny = (y + i + rows) % rows;
-              const nx = (x + j + cols) % cols;
-              if (gridRef.current[ny][nx] > 0) neighbors++;
-            }
-          }
-
-          if (age > 0) {
-            return config.survival2D.includes(neighbors) ? Math.min(age + 1, 100) : 0;
-          } else {
-            return config.birth2D.includes(neighbors) ? 1 : 0;
-          }
-        })
-      );
-      gridRef.current = nextGrid;
-    } else {
-      const bits = getRuleBits(config.rule1D);
-      const current = historyRef.current[historyRef.current.length - 1];
-      const cols = current.length;
-      const next = current.map((_, i) => {
-        const left = current[(i - 1 + cols) % cols];
-        const center = current[i];
-        const right = current[(i + 1) % cols];
-        const patternIndex = (left << 2) | (center << 1) | right;
-        return bits[patternIndex];
-      });
-      historyRef.current.push(next);
-      const maxRows = Math.ceil(window.innerHeight / config.resolution);
-      if (historyRef.current.length > maxRows) historyRef.current.shift();
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      sim.dispose();
+      simRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (postedConfigRef.current !== config) simRef.current?.send({ type: 'config', config });
+    postedConfigRef.current = config;
+    // Keep the hash current so a reload comes back to the same settings.
+    window.history.replaceState(null, '', encodePermalink({ config, size: windowGrid(config) }));
+  }, [config]);
+
+  useEffect(() => {
+    simRef.current?.send({ type: 'running', running: isRunning });
+  }, [isRunning]);
+
+  useEffect(() => {
+    simRef.current?.send({ type: 'census', view: censusView });
+  }, [censusView]);
+
+  useEffect(() => {
+    simRef.current?.send({ type: 'renderer', backend: renderer });
+  }, [renderer]);
+
+  const resetGrid = () => {
+    simRef.current?.send({ type: 'reset' });
+    setEdited(false);
+  };
+
+  const exportStats = () =>
+    downloadBlob(new Blob([samplesToCsv(samples)], { type: 'text/csv' }), 'population.csv');
+
+  // --- Capture ---
+
+  /** Waits on an encoder with the export buttons disabled. */
+  const exportWith = async (work: () => Promise<void>) => {
+    setExporting(true);
+    try {
+      await work();
+    } finally {
+      setExporting(false);
     }
-    setGeneration(g => g + 1);
-    cycleHueRef.current = (cycleHueRef.current + 1) % 360;
   };
 
-  const getCellColor = (age: number, neighbors: number = 0) => {
-    let h = config.hue;
-    let s = 80;
-    let l = 60;
-
-    switch (config.colorMode) {
-      case 'Age':
-        h = (config.hue + age * 8) % 360;
-        l = age === 1 ? 85 : Math.max(40, 70 - age);
-        break;
-      case 'Density':
-        h = (config.hue - (neighbors * 25)) % 360;
-        l = 40 + (neighbors * 5);
-        break;
-      case 'Cycle':
-        h = cycleHueRef.current;
-        break;
-      default:
-        break;
+  const saveSnapshot = (scale: number) =>
+    exportWith(async () => {
+      const image = await simRef.current?.request('frame', {});
+      if (image) downloadBlob(await encodePng(flattenFrame(image, hexToRgb(config.background), scale)), `emergence-${generation}.png`);
+    });
+
+  const saveSpacetime = (generations: number, cellSize: number) =>
+    exportWith(async () => {
+      const diagram = await simRef.current?.request('spacetime', { generations });
+      if (!diagram?.cells.length) return;
+      const rows = diagram.cells.length / diagram.cols;
+      downloadBlob(
+        await encodePng(spacetimeImage(config, diagram.cells, diagram.cols, cellSize)),
+        `rule-${config.rule1D.code}-${rows - 1}.png`,
+      );
+    });
+
+  const startRecording = (format: RecordingFormat, generations: number) => {
+    // GIF frames last as long as a step does at the current speed; video keeps real time.
+    recorderRef.current = {
+      format,
+      total: generations,
+      delay: 1000 / (config.speed + 1),
+      background: hexToRgb(config.background),
+      recorder: null,
+    };
+    setRecording({ format, recorded: 0, total: generations });
+    simRef.current?.send({ type: 'record', generations });
+  };
+
+  /** Encodes what has been recorded so far and downloads it. */
+  const finishRecording = () => {
+    const active = recorderRef.current;
+    recorderRef.current = null;
+    setRecording(null);
+    if (!active?.recorder) return;
+    const { format, recorder } = active;
+    exportWith(async () => downloadBlob(await recorder.finish(), `emergence.${RECORDING_EXTENSIONS[format]}`));
+  };
+
+  const stopRecording = () => {
+    simRef.current?.send({ type: 'record', generations: 0 });
+    finishRecording();
+  };
+
+  /** Travelling through the timeline freezes the run first, so the next step doesn't drop the redo history. */
+  const travel = (command: SimulationCommand) => {
+    simRef.current?.send({ type: 'running', running: false });
+    setIsRunning(false);
+    simRef.current?.send(command);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && /^(INPUT|TEXTAREA)$/.test(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) travel({ type: 'undo' });
+      else if ((key === 'z' && e.shiftKey) || key === 'y') travel({ type: 'redo' });
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  /** Reset Seed rolls a new seed; the runtime restarts whenever the seed changes. */
+  const reseed = () => {
+    setConfig(current => ({ ...current, seed: randomSeed() }));
+    setEdited(false);
+  };
+
+  // Settle policies. Pausing happens once per verdict; moving on waits a moment and restarts the wait on any change.
+  useEffect(() => {
+    if (settled && config.onSettle === 'Pause') {
+      simRef.current?.send({ type: 'running', running: false });
+      setIsRunning(false);
     }
-    return `hsla(${h}, ${s}%, ${l}%, 0.9)`;
+  }, [settled]);
+
+  useEffect(() => {
+    if (!settled || (config.onSettle !== 'Reseed' && config.onSettle !== 'NextPreset')) return;
+    const timer = setTimeout(() => {
+      if (config.onSettle === 'Reseed') {
+        reseed();
+        return;
+      }
+      // Only 2D presets can settle, so cycle among those.
+      const keys = Object.keys(PRESETS).filter(key => PRESETS[key].mode === '2D');
+      selectPreset(keys[(keys.indexOf(activePreset ?? '') + 1) % keys.length]);
+    }, SETTLE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [settled, config]);
+
+  const copyLink = async () => {
+    const pattern = edited && config.mode === '2D' ? await simRef.current?.request('capture', {}) : undefined;
+    const { origin, pathname, search } = window.location;
+    const hash = encodePermalink({
+      config,
+      size: windowGrid(config),
+      pattern: pattern?.cells.length ? pattern : undefined,
+    });
+    await navigator.clipboard.writeText(`${origin}${pathname}${search}${hash}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 1500);
   };
 
-  const draw = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.fillStyle = `rgba(0, 0, 0, ${1 - config.trails})`;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    const res = config.resolution;
-
-    if (config.mode === '2D') {
-      gridRef.current.forEach((row, y) => {
-        row.forEach((age, x) => {
-          if (age > 0) {
-            let neighbors = 0;
-            if (config.colorMode === 'Density') {
-              for (let i = -1; i <= 1; i++) for (let j = -1; j <= 1; j++) {
-                if (i === 0 && j === 0) continue;
-                const ny = (y + i + gridRef.current.length) % gridRef.current.length;
-                const nx = (x + j + row.length) % row.length;
-                if (gridRef.current[ny][nx] > 0) neighbors++;
-              }
-            }
-            ctx.fillStyle = getCellColor(age, neighbors);
-            ctx.fillRect(x * res, y * res, res - 1, res - 1);
-          }
-        });
-      });
-    } else {
-      historyRef.current.forEach((row, y) => {
-        row.forEach((cell, x) => {
-          if (cell === 1) {
-            const alpha = y / historyRef.current.length;
-            ctx.fillStyle = `hsla(${config.hue + (y * 0.2)}, 80%, 60%, ${alpha})`;
-            ctx.fillRect(x * res, y * res, res - 1, res - 1);
-          }
-        });
+  const currentRule: RuleSpec = {
+    birth: config.birth2D,
+    survival: config.survival2D,
+    states: config.states2D,
+    neighborhood: config.neighborhood2D,
+  };
+  const hashLifeCapable = (rule: RuleSpec) => !rule.birth.includes(0) && rule.states === 2 && isMoore1(rule.neighborhood);
+  const infiniteCapable = hashLifeCapable(currentRule);
+  const neighborCount = neighborhoodSize(config.neighborhood2D);
+
+  /**
+   * HashLife only handles two-state radius-1 Moore rules without B0 (empty
+   * space would ignite), so others force a bounded universe.
+   */
+  const withRule = (rule: RuleSpec, base: Config = config): Config => ({
+    ...base,
+    birth2D: rule.birth,
+    survival2D: rule.survival,
+    states2D: rule.states,
+    neighborhood2D: rule.neighborhood,
+    universe: hashLifeCapable(rule) ? base.universe : 'Bounded',
+  });
+
+  /** Drops counts the new neighborhood can no longer reach. */
+  const setNeighborhood = (neighborhood: Neighborhood) => {
+    const max = neighborhoodSize(neighborhood);
+    setConfig(withRule({
+      ...currentRule,
+      birth: config.birth2D.filter(n => n <= max),
+      survival: config.survival2D.filter(n => n <= max),
+      neighborhood,
+    }));
+    setActivePreset(null);
+  };
+
+  const toggleCount = (key: 'birth' | 'survival', n: number) => {
+    const rule = currentRule;
+    const counts = rule[key];
+    setConfig(withRule({ ...rule, [key]: counts.includes(n) ? counts.filter(x => x !== n) : [...counts, n] }));
+    setActivePreset(null);
+  };
+
+  // --- Pattern import/export ---
+
+  const importPattern = (text: string) => {
+    let pattern;
+    try {
+      pattern = parsePattern(text);
+    } catch (err) {
+      setPatternMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+      return;
+    }
+    let rule: RuleSpec | null = null;
+    try {
+      if (pattern.rule) rule = parseRule(pattern.rule);
+    } catch {
+      // Reported below as an ignored rule.
+    }
+    const next: Config = rule ? withRule(rule, { ...config, mode: '2D' }) : { ...config, mode: '2D' };
+    // A bounded grid would clip it; the infinite universe takes any size.
+    const { cols, rows } = windowGrid(next);
+    if (next.universe === 'Bounded' && (pattern.width > cols || pattern.height > rows)) {
+      setPatternMessage({
+        text: `${pattern.name ?? 'Pattern'} is ${pattern.width}x${pattern.height} but the grid is ${cols}x${rows}. Lower the resolution or switch to the infinite universe.`,
+        error: true,
       });
+      return;
     }
+    // Apply the config before placing so the pattern lands in a 2D grid with its own rule.
+    postedConfigRef.current = next;
+    simRef.current?.send({ type: 'config', config: next });
+    simRef.current?.send({ type: 'place', pattern });
+    setConfig(next);
+    setEdited(true);
+    setActivePreset(null);
+    setSelection(null);
+    const ignoredRule = pattern.rule && !rule ? ` (unsupported rule ${pattern.rule} ignored)` : '';
+    setPatternMessage({ text: `Loaded ${pattern.name ?? 'pattern'}, ${pattern.width}x${pattern.height}${ignoredRule}.`, error: ignoredRule !== '' });
   };
 
-  const animate = (time: number) => {
-    const threshold = 1000 / (config.speed + 1);
-    if (isRunning && time - lastUpdateRef.current > threshold) {
-      step();
-      lastUpdateRef.current = time;
+  const exportPattern = async (format: PatternFormat, action: 'copy' | 'download') => {
+    const sim = simRef.current;
+    if (!sim) return;
+    const pattern = await sim.request('capture', { region: selection ?? undefined });
+    if (pattern.cells.length === 0) {
+      setPatternMessage({ text: 'Nothing alive to export.', error: true });
+      return;
+    }
+    const name = activePreset ? PRESETS[activePreset].name : undefined;
+    const text = serializePattern(
+      { ...pattern, name, rule: formatRule(currentRule) },
+      format,
+    );
+    if (action === 'copy') {
+      await navigator.clipboard.writeText(text);
+      setPatternMessage({ text: `Copied ${pattern.width}x${pattern.height} as ${format}.`, error: false });
+    } else {
+      downloadBlob(new Blob([text], { type: 'text/plain' }), `pattern.${FILE_EXTENSIONS[format]}`);
     }
-    draw();
-    requestRef.current = requestAnimationFrame(animate);
   };
 
   useEffect(() => {
-    requestRef.current = requestAnimationFrame(animate);
-    return () => cancelAnimationFrame(requestRef.current!);
-  }, [isRunning, config]);
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && /^(INPUT|TEXTAREA)$/.test(target.tagName)) return;
+      const text = e.clipboardData?.getData('text');
+      // Anything else pasted over the page, like a link, isn't meant for the grid.
+      if (text && looksLikePattern(text)) importPattern(text);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [config]);
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    const text = file ? await file.text() : e.dataTransfer.getData('text');
+    if (text) importPattern(text);
+  };
+
+  const updateSelection = (px: number, py: number) => {
+    const start = selectionStartRef.current;
+    if (!start) return;
+    setSelection({
+      x: Math.min(start.px, px),
+      y: Math.min(start.py, py),
+      width: Math.abs(px - start.px),
+      height: Math.abs(py - start.py),
+    });
+  };
+
+  const canvasPoint = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { px: clientX - rect.left, py: clientY - rect.top };
+  };
+
+  /** Paints one cell of the hand-drawn first row; the runtime restarts from it on every change. */
+  const paintSeedCell = (px: number) => {
+    const x = Math.floor(px / config.resolution);
+    // Functional update: drag events can outrun re-renders.
+    setConfig(current => {
+      const { seed1D, rule1D } = current;
+      const drawn = [...seed1D.drawn];
+      while (drawn.length <= x) drawn.push(0);
+      if (paintStateRef.current === null) paintStateRef.current = (drawn[x] + 1) % rule1D.colors;
+      if (drawn[x] === paintStateRef.current) return current;
+      drawn[x] = paintStateRef.current;
+      return { ...current, seed1D: { ...seed1D, drawn } };
+    });
+  };
 
   const handleCanvasInteraction = (e: React.MouseEvent | React.TouchEvent) => {
     const canvas = canvasRef.current;
-    if (!canvas || config.mode === '1D') return;
+    if (!canvas) return;
 
-    const rect = canvas.getBoundingClientRect();
     const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-    
-    const x = Math.floor((clientX - rect.left) / config.resolution);
-    const y = Math.floor((clientY - rect.top) / config.resolution);
-
-    if (gridRef.current[y] && gridRef.current[y][x] !== undefined) {
-      const newGrid = [...gridRef.current];
-      newGrid[y][x] = newGrid[y][x] > 0 ? 0 : 1; 
-      gridRef.current = newGrid;
-      setActivePreset(null); // Manual touch breaks preset
+
+    if (config.mode === '1D') {
+      if (config.seed1D.kind === 'Drawn') paintSeedCell(canvasPoint(clientX, clientY).px);
+      return;
+    }
+
+    const point = canvasPoint(clientX, clientY);
+    const continues = strokeRef.current;
+    if (config.mode !== '2D' || tool === 'Toggle') {
+      simRef.current?.send({ type: 'toggle', ...point, continues });
+    } else if (tool === 'Stamp') {
+      // One stamp per click; dragging doesn't smear copies.
+      if (!continues) simRef.current?.send({ type: 'stamp', ...point, pattern: stampPattern });
+    } else if (tool !== 'Rect') {
+      simRef.current?.send({ type: 'brush', ...point, tool, size: brushSize, continues });
+    }
+    strokeRef.current = true;
+    if (config.mode === '2D') setEdited(true);
+    setActivePreset(null); // Manual touch breaks preset
+  };
+
+  // Viewport gestures (infinite universe only): wheel/pinch zoom, shift/right-drag or two-finger pan.
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!isInfinite) return;
+    simRef.current?.send({ type: 'zoom', factor: Math.exp(-e.deltaY * 0.0015), ...canvasPoint(e.clientX, e.clientY) });
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if ((selecting || tool === 'Rect') && config.mode === '2D') {
+      selectionStartRef.current = canvasPoint(e.clientX, e.clientY);
+      updateSelection(selectionStartRef.current.px, selectionStartRef.current.py);
+      return;
+    }
+    if (isInfinite && (e.button !== 0 || e.shiftKey)) {
+      gestureRef.current = { x: e.clientX, y: e.clientY, distance: 0 };
+      return;
+    }
+    handleCanvasInteraction(e);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const gesture = gestureRef.current;
+    if (tool === 'Stamp' && config.mode === '2D') {
+      simRef.current?.send({ type: 'ghost', pattern: stampPattern, ...canvasPoint(e.clientX, e.clientY) });
+    }
+    if (selectionStartRef.current) {
+      const { px, py } = canvasPoint(e.clientX, e.clientY);
+      updateSelection(px, py);
+    } else if (gesture) {
+      simRef.current?.send({ type: 'pan', dx: e.clientX - gesture.x, dy: e.clientY - gesture.y });
+      gesture.x = e.clientX;
+      gesture.y = e.clientY;
+    } else if (e.buttons === 1) {
+      handleCanvasInteraction(e);
+    }
+  };
+
+  const handleTouch = (e: React.TouchEvent) => {
+    if (isInfinite && e.touches.length >= 2) {
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const x = (a.clientX + b.clientX) / 2;
+      const y = (a.clientY + b.clientY) / 2;
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+      const gesture = gestureRef.current;
+      if (gesture && gesture.distance > 0) {
+        simRef.current?.send({ type: 'pan', dx: x - gesture.x, dy: y - gesture.y });
+        simRef.current?.send({ type: 'zoom', factor: distance / gesture.distance, ...canvasPoint(x, y) });
+      }
+      gestureRef.current = { x, y, distance };
+      return;
+    }
+    if (gestureRef.current) return; // Lifting one finger of a pinch shouldn't paint
+    if ((selecting || tool === 'Rect') && config.mode === '2D') {
+      const point = canvasPoint(e.touches[0].clientX, e.touches[0].clientY);
+      if (!selectionStartRef.current) selectionStartRef.current = point;
+      updateSelection(point.px, point.py);
+      return;
+    }
+    handleCanvasInteraction(e);
+  };
+
+  const endGesture = (e: React.MouseEvent | React.TouchEvent) => {
+    paintStateRef.current = null;
+    strokeRef.current = false;
+    if (selectionStartRef.current) {
+      selectionStartRef.current = null;
+      if (selecting) {
+        setSelecting(false);
+      } else if (selection) {
+        // The rectangle tool reuses the selection drag, then fills instead of keeping it.
+        simRef.current?.send({ type: 'fill', region: selection });
+        setSelection(null);
+        setEdited(true);
+        setActivePreset(null);
+      }
     }
+    if (!('touches' in e) || e.touches.length === 0) gestureRef.current = null;
+  };
+
+  const hideGhost = () => simRef.current?.send({ type: 'ghost', pattern: null, px: 0, py: 0 });
+
+  // --- Pattern library ---
+
+  const stampPattern = orientPattern(stamp.pattern, orientation);
+
+  /** Non-null when the stamp names a rule other than the current one. */
+  const stampRule = (() => {
+    if (!stamp.pattern.rule) return null;
+    try {
+      const rule = formatRule(parseRule(stamp.pattern.rule));
+      return rule === formatRule(currentRule) ? null : rule;
+    } catch {
+      return null;
+    }
+  })();
+
+  useEffect(() => {
+    if (tool !== 'Stamp' || config.mode !== '2D') hideGhost();
+  }, [tool, config.mode]);
+
+  const updateLibrary = (next: LibraryEntry[]) => {
+    setLibrary(next);
+    try {
+      saveUserLibrary(next);
+    } catch {
+      setPatternMessage({ text: 'Could not save the library in this browser.', error: true });
+    }
+  };
+
+  const updatePalettes = (next: Palette[]) => {
+    setUserPalettes(next);
+    try {
+      saveUserPalettes(next);
+    } catch {
+      setPatternMessage({ text: 'Could not save palettes in this browser.', error: true });
+    }
+  };
+
+  /** Replaces any saved palette of the same name. */
+  const savePalette = (palette: Palette) => {
+    updatePalettes([...userPalettes.filter(p => p.name !== palette.name), palette]);
+    setConfig({ ...config, palette });
+  };
+
+  const saveSelection = async (name: string) => {
+    const sim = simRef.current;
+    if (!sim || !selection) return;
+    const pattern = await sim.request('capture', { region: selection });
+    if (pattern.cells.length === 0) {
+      setPatternMessage({ text: 'Nothing alive to save.', error: true });
+      return;
+    }
+    const entry: LibraryEntry = { name, pattern: { ...pattern, name, rule: formatRule(currentRule) }, builtin: false };
+    // Saving under an existing name replaces that pattern.
+    updateLibrary([...library.filter(e => e.builtin || e.name !== name), entry]);
+    setStamp(entry);
+    setOrientation(IDENTITY);
+    setTool('Stamp');
+    setSelection(null);
+  };
+
+  const deleteEntry = (entry: LibraryEntry) => {
+    updateLibrary(library.filter(e => e !== entry));
+    if (entry === stamp) setStamp(BUILTIN_LIBRARY[0]);
   };
 
   const selectPreset = (key: string) => {
     const p = PRESETS[key];
-    const newCfg = { ...config, mode: p.mode };
-    if (p.mode === '2D' && p.birth && p.survival) {
-      newCfg.birth2D = p.birth;
-      newCfg.survival2D = p.survival;
-    } else if (p.mode === '1D' && p.rule !== undefined) {
-      newCfg.rule1D = p.rule;
+    let newCfg: Config = {
+      ...config,
+      mode: p.mode,
+      palette: p.palette ?? null,
+      background: p.background ?? DEFAULT_CONFIG.background,
+    };
+    if (p.mode === '2D' && p.rulestring) {
+      newCfg = withRule(parseRule(p.rulestring), newCfg);
+      newCfg.density = soupDensity(newCfg.neighborhood2D);
+    } else if (p.mode === '1D' && p.rule1D) {
+      newCfg.rule1D = p.rule1D;
+    } else if (p.mode === 'Continuous' && p.lenia) {
+      newCfg.lenia = p.lenia;
     }
+    // The reset carries the config: the effect would only post it after the fresh soup had stepped the old rule.
+    postedConfigRef.current = newCfg;
+    simRef.current?.send({ type: 'reset', config: newCfg });
+    setEdited(false);
     setConfig(newCfg);
     setActivePreset(key);
-    initGrid(p.mode, config.resolution);
   };
 
   return (
-    <div className="relative w-full h-screen overflow-hidden flex flex-col select-none bg-black">
+    <div
+      className="relative w-full h-screen overflow-hidden flex flex-col select-none bg-black"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       <canvas
         ref={canvasRef}
-        width={window.innerWidth}
-        height={window.innerHeight}
-        onMouseDown={handleCanvasInteraction}
-        onMouseMove={(e) => e.buttons === 1 && handleCanvasInteraction(e)}
-        onTouchStart={handleCanvasInteraction}
-        onTouchMove={handleCanvasInteraction}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endGesture}
+        onMouseLeave={(e) => {
+          endGesture(e);
+          hideGhost();
+        }}
+        onWheel={handleWheel}
+        onContextMenu={(e) => isInfinite && e.preventDefault()}
+        onTouchStart={handleTouch}
+        onTouchMove={handleTouch}
+        onTouchEnd={endGesture}
         className="absolute inset-0 z-0 cursor-crosshair"
+        style={{ background: config.background }}
       />
 
+      {selection && config.mode === '2D' && (
+        <div
+          className="absolute z-10 pointer-events-none border border-cyan-400/80 bg-cyan-400/10"
+          style={{ left: selection.x, top: selection.y, width: selection.width, height: selection.height }}
+        />
+      )}
+
       {/* Stats Overlay */}
       <div className="absolute top-4 left-4 z-10 pointer-events-none p-3 bg-black/40 backdrop-blur-md border border-white/10 rounded-lg shadow-2xl">
         <h1 className="text-lg font-black italic tracking-tighter text-white">EMERGENCE.v2</h1>
@@ -268,6 +821,7 @@ const CellularAutomata: React.FC = () => {
           <span>Res: {config.resolution}px</span>
           <span className="text-cyan-400">{activePreset ? PRESETS[activePreset].name : 'CUSTOM'}</span>
         </div>
+        <StatsPanel stats={stats} settled={settled} samples={samples} onExport={exportStats} />
       </div>
 
       {/* UI Controls */}
@@ -290,14 +844,30 @@ const CellularAutomata: React.FC = () => {
               {isRunning ? 'FREEZE' : 'EVOLVE'}
             </button>
             <button 
-              onClick={(e) => { e.stopPropagation(); initGrid(config.mode, config.resolution); }}
+              onClick={(e) => { e.stopPropagation(); reseed(); }}
               className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter"
             >
               Reset Seed
             </button>
+            <button 
+              onClick={(e) => { e.stopPropagation(); copyLink(); }}
+              className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter"
+            >
+              {linkCopied ? 'Link Copied' : 'Copy Link'}
+            </button>
           </div>
         </div>
 
+        <TimelineBar
+          generation={generation}
+          {...timeline}
+          forwardOnly={config.mode === '1D'}
+          onStep={(delta) => travel({ type: 'step', delta })}
+          onSeek={(target) => travel({ type: 'seek', generation: target })}
+          onUndo={() => travel({ type: 'undo' })}
+          onRedo={() => travel({ type: 'redo' })}
+        />
+
         {/* Content Area */}
         <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-8 max-h-[75vh] overflow-y-auto custom-scrollbar">
           
@@ -327,9 +897,9 @@ const CellularAutomata: React.FC = () => {
                 type="range" min="2" max="32" step="1" 
                 value={config.resolution}
                 onChange={(e) => {
-                    setConfig({ ...config, resolution: parseInt(e.target.value) });
                     // Changing res resets the grid so it's technically a new manual state
-                    initGrid(config.mode, parseInt(e.target.value));
+                    // and refits it to the window, dropping any size a permalink pinned.
+                    setConfig({ ...config, resolution: parseInt(e.target.value), gridSize: null });
                 }}
                 className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
               />
@@ -344,26 +914,171 @@ const CellularAutomata: React.FC = () => {
                 onChange={(e) => setConfig({ ...config, speed: parseInt(e.target.value) })}
                 className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
               />
+
+              {config.mode === '2D' && (
+                <>
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Fill Density</label>
+                    <span className="text-[10px] font-mono">{Math.round(config.density * 100)}%</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="1" step="0.01" 
+                    value={config.density}
+                    onChange={(e) => setConfig({ ...config, density: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+                  />
+                </>
+              )}
+
+              <div className="flex items-center gap-2">
+                <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Seed</label>
+                <input
+                  type="number" min="0" max={MAX_SEED} step="1"
+                  value={config.seed}
+                  onChange={(e) => setConfig({ ...config, seed: Math.min(MAX_SEED, Math.max(0, parseInt(e.target.value) || 0)) })}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 focus:border-white/30 rounded px-2 py-1 text-[11px] font-mono text-white outline-none"
+                />
+                <button
+                  onClick={resetGrid}
+                  title="Restart from the same seed"
+                  className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter shrink-0"
+                >
+                  Replay
+                </button>
+              </div>
+
+              {config.mode === '2D' && (
+                <div>
+                  <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">When Settled</label>
+                  <div className="grid grid-cols-4 gap-1">
+                    {(Object.keys(SETTLE_LABELS) as SettlePolicy[]).map(policy => (
+                      <button
+                        key={policy}
+                        onClick={() => setConfig({ ...config, onSettle: policy })}
+                        className={`py-1 rounded text-[9px] font-bold border transition-all uppercase ${config.onSettle === policy ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+                      >
+                        {SETTLE_LABELS[policy]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="pt-2">
                <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Space Dimensions</label>
                <div className="flex gap-1 bg-white/5 p-1 rounded-lg">
-                {['1D', '2D'].map(m => (
+                {(['1D', '2D', 'Continuous'] as Mode[]).map(m => (
                   <button
                     key={m}
                     onClick={() => {
-                        setConfig({ ...config, mode: m as Mode });
+                        setConfig({ ...config, mode: m });
                         setActivePreset(null);
-                        initGrid(m as Mode, config.resolution);
                     }}
-                    className={`flex-1 py-1 rounded text-[10px] font-bold transition-all ${config.mode === m ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/60'}`}
+                    className={`flex-1 py-1 rounded text-[10px] font-bold transition-all uppercase ${config.mode === m ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/60'}`}
                   >
-                    {m} MODE
+                    {MODE_LABELS[m]}
                   </button>
                 ))}
               </div>
+              {config.mode === '2D' && (
+                <div className="flex gap-1 bg-white/5 p-1 rounded-lg mt-2">
+                  {(['Bounded', 'Infinite'] as Universe[]).map(u => (
+                    <button
+                      key={u}
+                      onClick={() => setConfig({ ...config, universe: u })}
+                      disabled={u === 'Infinite' && !infiniteCapable}
+                      title={u === 'Infinite' && !infiniteCapable ? 'B0, Generations and non-Moore or wide neighborhoods need a bounded universe' : undefined}
+                      className={`flex-1 py-1 rounded text-[10px] font-bold transition-all uppercase ${config.universe === u ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/60'}`}
+                    >
+                      {u}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {!isInfinite && (
+                <div className="mt-4">
+                  <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Boundary</label>
+                  <div className="grid grid-cols-5 gap-1">
+                    {BOUNDARIES.map(b => (
+                      <button
+                        key={b}
+                        onClick={() => setConfig({ ...config, boundary: b })}
+                        title={config.mode === '1D' && b === 'Klein' ? 'Same as Torus in 1D' : undefined}
+                        className={`py-1 rounded text-[9px] font-bold border transition-all truncate ${config.boundary === b ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+                      >
+                        {BOUNDARY_LABELS[b]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {isInfinite && (
+                <div className="space-y-2 mt-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Hyperstep</label>
+                    <span className="text-[10px] font-mono">2^{config.stepLog2} gen</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="20" step="1" 
+                    value={config.stepLog2}
+                    onChange={(e) => setConfig({ ...config, stepLog2: parseInt(e.target.value) })}
+                    className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+                  />
+                  <div className="flex justify-between items-center">
+                    <p className="text-[9px] text-white/30 leading-relaxed">Wheel or pinch to zoom. Shift/right-drag or two fingers to pan.</p>
+                    <button
+                      onClick={() => simRef.current?.send({ type: 'recenter' })}
+                      className="text-[10px] font-bold opacity-60 hover:opacity-100 uppercase tracking-tighter shrink-0 ml-2"
+                    >
+                      Recenter
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
+
+            <ToolPanel
+              disabled={config.mode !== '2D'}
+              tool={tool}
+              brushSize={brushSize}
+              library={library}
+              stamp={stamp}
+              orientation={orientation}
+              hasSelection={selection !== null}
+              stampRule={stampRule}
+              onToolChange={setTool}
+              onBrushSizeChange={setBrushSize}
+              onStampChange={(entry) => {
+                setStamp(entry);
+                setTool('Stamp');
+              }}
+              onOrientationChange={setOrientation}
+              onSaveSelection={saveSelection}
+              onDelete={deleteEntry}
+              onUseStampRule={() => {
+                if (stampRule) setConfig(withRule(parseRule(stampRule)));
+                setActivePreset(null);
+              }}
+            />
+
+            <PatternPanel
+              disabled={config.mode !== '2D'}
+              message={patternMessage}
+              selecting={selecting}
+              hasSelection={selection !== null}
+              onSelectingChange={setSelecting}
+              onClearSelection={() => setSelection(null)}
+              onImport={importPattern}
+              onExport={exportPattern}
+            />
+
+            <CensusPanel
+              disabled={config.mode !== '2D'}
+              view={censusView}
+              counts={censusCounts}
+              onViewChange={setCensusView}
+            />
           </div>
 
           {/* Aesthetics Column */}
@@ -383,8 +1098,43 @@ const CellularAutomata: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Renderer</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['WebGL', 'Canvas2D'] as RendererBackend[]).map(backend => (
+                  <button
+                    key={backend}
+                    onClick={() => setRenderer(backend)}
+                    className={`py-1.5 px-2 rounded text-[9px] font-bold border transition-all ${renderer === backend ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+                  >
+                    {backend}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] text-white/30 leading-relaxed mt-2">
+                {renderer === 'WebGL' && activeRenderer === 'Canvas2D'
+                  ? 'WebGL2 is unavailable here; drawing with Canvas2D.'
+                  : renderer === 'WebGL'
+                    ? 'Shaders draw the bounded 2D grid; other views still use Canvas2D.'
+                    : 'Every view draws cell by cell on a 2D canvas.'}
+              </p>
+            </div>
+
+            <PaletteEditor
+              palette={config.palette}
+              userPalettes={userPalettes}
+              background={config.background}
+              grid={config.grid}
+              onPaletteChange={(palette: Palette | null) => setConfig({ ...config, palette })}
+              onSave={savePalette}
+              onDelete={(palette: Palette) => updatePalettes(userPalettes.filter(p => p !== palette))}
+              onBackgroundChange={(background: string) => setConfig({ ...config, background })}
+              onGridChange={(grid: GridStyle) => setConfig({ ...config, grid })}
+            />
+
             <div className="space-y-4">
-              <div className="flex justify-between items-center">
+              {/* A palette replaces the hue, so the slider only matters without one. */}
+              <div className={`flex justify-between items-center ${config.palette ? 'opacity-30' : ''}`}>
                 <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Base Hue</label>
                 <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: `hsl(${config.hue}, 80%, 60%)` }}></div>
               </div>
@@ -392,7 +1142,7 @@ const CellularAutomata: React.FC = () => {
                 type="range" min="0" max="360" step="1" 
                 value={config.hue}
                 onChange={(e) => setConfig({ ...config, hue: parseInt(e.target.value) })}
-                className="w-full h-1 rounded-lg appearance-none cursor-pointer"
+                className={`w-full h-1 rounded-lg appearance-none cursor-pointer ${config.palette ? 'opacity-30' : ''}`}
                 style={{ background: 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)' }}
               />
               
@@ -408,48 +1158,114 @@ const CellularAutomata: React.FC = () => {
               />
             </div>
 
-            {config.mode === '1D' ? (
+            <CapturePanel
+              is1D={config.mode === '1D'}
+              webmSupported={canRecordWebM()}
+              recording={recording}
+              busy={exporting}
+              onSnapshot={saveSnapshot}
+              onRecord={startRecording}
+              onStopRecording={stopRecording}
+              onSpacetime={saveSpacetime}
+            />
+
+            {config.mode === 'Continuous' ? (
               <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Rule (0-255)</label>
-                  <span className="text-[10px] font-mono">#{config.rule1D}</span>
-                </div>
-                <input 
-                  type="range" min="0" max="255" step="1" 
-                  value={config.rule1D}
-                  onChange={(e) => {
-                      setConfig({ ...config, rule1D: parseInt(e.target.value) });
-                      setActivePreset(null);
+                {LENIA_SLIDERS.map(({ key, label, min, max, step, digits }) => (
+                  <div key={key} className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">{label}</label>
+                      <span className="text-[10px] font-mono">{config.lenia[key].toFixed(digits)}</span>
+                    </div>
+                    <input 
+                      type="range" min={min} max={max} step={step} 
+                      value={config.lenia[key]}
+                      onChange={(e) => {
+                          setConfig({ ...config, lenia: { ...config.lenia, [key]: parseFloat(e.target.value) } });
+                          setActivePreset(null);
+                      }}
+                      className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                    />
+                  </div>
+                ))}
+                <p className="text-[9px] text-white/30 leading-relaxed">Click or drag on the canvas to paint soft blobs of noise.</p>
+              </div>
+            ) : config.mode === '1D' ? (
+              <div className="space-y-6">
+                <WolframRuleEditor
+                  rule={config.rule1D}
+                  onChange={(rule1D) => {
+                    setConfig({ ...config, rule1D });
+                    setActivePreset(null);
                   }}
-                  className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-400"
                 />
+                <RowSeedEditor seed={config.seed1D} onChange={(seed1D) => setConfig({ ...config, seed1D })} />
               </div>
             ) : (
-              <div className="flex gap-4">
-                <div className="flex-1">
-                   <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Birth (B)</label>
-                   <div className="flex flex-wrap gap-1">
-                     {[1,2,3,4,5,6,7,8].map(n => (
-                       <button key={n} onClick={() => {
-                           setConfig({...config, birth2D: config.birth2D.includes(n) ? config.birth2D.filter(x => x !== n) : [...config.birth2D, n]});
-                           setActivePreset(null);
-                       }}
-                         className={`w-5 h-5 text-[9px] rounded flex items-center justify-center font-bold transition-all ${config.birth2D.includes(n) ? 'bg-cyan-500 text-white' : 'bg-white/5 opacity-30 hover:opacity-60'}`}>{n}</button>
-                     ))}
-                   </div>
+              <div className="space-y-4">
+                <RuleEditor
+                  rule={currentRule}
+                  onChange={(rule) => {
+                    setConfig(withRule(rule));
+                    setActivePreset(null);
+                  }}
+                />
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold opacity-40 block uppercase tracking-widest">Neighborhood</label>
+                  <div className="grid grid-cols-3 gap-1">
+                    {NEIGHBORHOOD_KINDS.map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => setNeighborhood({ ...config.neighborhood2D, kind })}
+                        className={`py-1 rounded text-[9px] font-bold border transition-all truncate ${config.neighborhood2D.kind === kind ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+                      >
+                        {NEIGHBORHOOD_LABELS[kind]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Radius</label>
+                    <span className="text-[10px] font-mono">r{config.neighborhood2D.radius} · {neighborCount} cells</span>
+                  </div>
+                  <input 
+                    type="range" min="1" max={MAX_RADIUS} step="1" 
+                    value={config.neighborhood2D.radius}
+                    onChange={(e) => setNeighborhood({ ...config.neighborhood2D, radius: parseInt(e.target.value) })}
+                    className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-white"
+                  />
+                  <button
+                    onClick={() => setNeighborhood({ ...config.neighborhood2D, includeCenter: !config.neighborhood2D.includeCenter })}
+                    className={`w-full py-1 rounded text-[9px] font-bold border transition-all uppercase ${config.neighborhood2D.includeCenter ? 'bg-white/15 border-white/30 text-white' : 'border-white/5 text-white/30 hover:text-white/60'}`}
+                  >
+                    Count Center Cell
+                  </button>
                 </div>
-                <div className="flex-1">
-                   <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Stay (S)</label>
-                   <div className="flex flex-wrap gap-1">
-                     {[1,2,3,4,5,6,7,8].map(n => (
-                       <button key={n} onClick={() => {
-                           setConfig({...config, survival2D: config.survival2D.includes(n) ? config.survival2D.filter(x => x !== n) : [...config.survival2D, n]});
-                           setActivePreset(null);
-                       }}
-                         className={`w-5 h-5 text-[9px] rounded flex items-center justify-center font-bold transition-all ${config.survival2D.includes(n) ? 'bg-emerald-500 text-white' : 'bg-white/5 opacity-30 hover:opacity-60'}`}>{n}</button>
-                     ))}
-                   </div>
+                {neighborCount > MAX_COUNT_BUTTONS ? (
+                  <p className="text-[9px] text-white/30 leading-relaxed">
+                    {neighborCount} neighbors is too many for buttons; edit birth and survival as ranges in the rulestring, e.g. S34..58,B34..45.
+                  </p>
+                ) : (
+                <div className="flex gap-4">
+                  <div className="flex-1">
+                     <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Birth (B)</label>
+                     <div className="flex flex-wrap gap-1">
+                       {Array.from({ length: neighborCount + 1 }, (_, n) => (
+                         <button key={n} onClick={() => toggleCount('birth', n)}
+                           className={`w-5 h-5 text-[9px] rounded flex items-center justify-center font-bold transition-all ${config.birth2D.includes(n) ? 'bg-cyan-500 text-white' : 'bg-white/5 opacity-30 hover:opacity-60'}`}>{n}</button>
+                       ))}
+                     </div>
+                  </div>
+                  <div className="flex-1">
+                     <label className="text-[10px] font-bold opacity-40 block mb-2 uppercase tracking-widest">Stay (S)</label>
+                     <div className="flex flex-wrap gap-1">
+                       {Array.from({ length: neighborCount + 1 }, (_, n) => (
+                         <button key={n} onClick={() => toggleCount('survival', n)}
+                           className={`w-5 h-5 text-[9px] rounded flex items-center justify-center font-bold transition-all ${config.survival2D.includes(n) ? 'bg-emerald-500 text-white' : 'bg-white/5 opacity-30 hover:opacity-60'}`}>{n}</button>
+                       ))}
+                     </div>
+                  </div>
                 </div>
+                )}
               </div>
             )}
           </div>
@@ -472,18 +1288,24 @@ const CellularAutomata: React.FC = () => {
 
                     <div className="pt-4 border-t border-white/5">
                         <p className="text-[10px] font-mono text-white/40 uppercase mb-2">Neighborhood Rules</p>
-                        {config.mode === '2D' ? (
+                        {config.mode === 'Continuous' ? (
+                            <p className="text-[11px] text-white/60 leading-relaxed">
+                                Each cell holds a value between 0 and 1 and averages its surroundings through a ring {config.lenia.radius} cells wide. Where that average lands near {config.lenia.mu.toFixed(3)} (within about {config.lenia.sigma.toFixed(3)}) the cell grows; anywhere else it fades, changing by at most {config.lenia.dt.toFixed(2)} per step.
+                            </p>
+                        ) : config.mode === '2D' ? (
                             <p className="text-[11px] text-white/60 leading-relaxed">
-                                Each cell checks its 8 neighbors. If it's empty and has {config.birth2D.join(', ')} neighbors, it becomes alive. If it's alive and has {config.survival2D.join(', ')}, it stays.
+                                Each cell checks the {neighborCount} cells of its radius-{config.neighborhood2D.radius} {NEIGHBORHOOD_LABELS[config.neighborhood2D.kind]} neighborhood{config.neighborhood2D.includeCenter && ', itself included'}. {config.birth2D.length ? ` If it's empty and has ${formatRanges(config.birth2D, '–').join(', ')} live neighbors, it becomes alive.` : ' Empty cells never come alive.'}
+                                {config.survival2D.length ? ` If it's alive and has ${formatRanges(config.survival2D, '–').join(', ')}, it stays.` : ' Live cells never survive.'}
+                                {config.states2D > 2 && ` Otherwise it decays through ${config.states2D - 2} refractory state${config.states2D > 3 ? 's' : ''} before dying, and only firing cells count as neighbors.`}
                             </p>
                         ) : (
                             <div className="space-y-2">
-                                <p className="text-[11px] text-white/60 leading-relaxed">Each cell looks at its neighbors and self to determine the next state based on the bits of Rule {config.rule1D}.</p>
-                                <div className="flex gap-1 py-1">
-                                    {getRuleBits(config.rule1D).map((b, i) => (
-                                        <div key={i} className={`w-2 h-2 rounded-full ${b ? 'bg-white' : 'bg-white/5'}`} />
-                                    ))}
-                                </div>
+                                <p className="text-[11px] text-white/60 leading-relaxed">
+                                    {config.rule1D.totalistic
+                                        ? `Each cell adds up its own state and the ${2 * config.rule1D.radius} cells around it; Code ${config.rule1D.code} maps every possible sum to the next state.`
+                                        : `Each cell looks at its ${config.rule1D.radius === 1 ? 'neighbors' : `${config.rule1D.radius} neighbors on each side`} and self; Rule ${config.rule1D.code} lists the next state for every pattern.`}
+                                </p>
+                                <RuleIconTable rule={config.rule1D} hue={config.hue} palette={config.palette} />
                             </div>
                         )}
                     </div>
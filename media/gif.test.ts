@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { createGifEncoder } from './gif';
+import type { RgbaImage } from './image';
+
+const COLORS = [[0, 0, 0], [255, 255, 255], [0, 200, 255], [255, 0, 128]];
+
+/** A frame of COLORS picked by `color(x, y)`; GIF quantizes 15-bit buckets, so these come back exact. */
+const frame = (width: number, height: number, color: (x: number, y: number) => number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) data.set([...COLORS[color(p % width, Math.floor(p / width))], 255], p * 4);
+  return { width, height, data };
+};
+
+/** Code widths read and clear codes met while decoding, next to the decoded indices. */
+interface LzwTrace {
+  indices: number[];
+  maxCodeSize: number;
+  clears: number;
+}
+
+/** Textbook GIF LZW decoder, written independently of the encoder's table handling. */
+const decodeLzw = (data: Uint8Array, minCodeSize: number): LzwTrace => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dictionary: number[][] = [];
+  const reset = () => {
+    dictionary = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+  const trace: LzwTrace = { indices: [], maxCodeSize: codeSize, clears: 0 };
+  let position = 0;
+  let previous: number[] | null = null;
+  while (position + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, position++) code |= ((data[position >> 3] >> (position & 7)) & 1) << bit;
+    if (code === clearCode) {
+      trace.clears++;
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < dictionary.length) entry = dictionary[code];
+    else if (previous && code === dictionary.length) entry = [...previous, previous[0]];
+    else throw new Error(`Code ${code} is past the table (${dictionary.length})`);
+    if (previous && dictionary.length < 4096) dictionary.push([...previous, entry[0]]);
+    if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+    trace.maxCodeSize = Math.max(trace.maxCodeSize, codeSize);
+    trace.indices.push(...entry);
+    previous = entry;
+  }
+  return trace;
+};
+
+interface DecodedFrame extends LzwTrace {
+  width: number;
+  height: number;
+  palette: number[][];
+  delay: number;
+}
+
+/** Walks the blocks of a GIF this encoder wrote. */
+const decodeGif = (bytes: Uint8Array) => {
+  let i = 13;
+  const word = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  const subBlocks = () => {
+    const parts: number[] = [];
+    while (bytes[i] !== 0) {
+      parts.push(...bytes.subarray(i + 1, i + 1 + bytes[i]));
+      i += bytes[i] + 1;
+    }
+    i++;
+    return Uint8Array.from(parts);
+  };
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+  while (bytes[i] !== 0x3b) {
+    if (bytes[i] === 0x21) {
+      const label = bytes[i + 1];
+      i += 2;
+      const data = subBlocks();
+      if (label === 0xf9) delay = data[1] | (data[2] << 8);
+    } else if (bytes[i] === 0x2c) {
+      const width = word(i + 5);
+      const height = word(i + 7);
+      const packed = bytes[i + 9];
+      i += 10;
+      const entries = 1 << ((packed & 7) + 1);
+      const palette = Array.from({ length: entries }, (_, e) => [...bytes.subarray(i + e * 3, i + e * 3 + 3)]);
+      i += entries * 3;
+      const minCodeSize = bytes[i++];
+      frames.push({ width, height, palette, delay, ...decodeLzw(subBlocks(), minCodeSize) });
+    } else {
+      throw new Error(`Unexpected block 0x${bytes[i].toString(16)} at ${i}`);
+    }
+  }
+  return frames;
+};
+
+const encode = async (frames: RgbaImage[], delay = 100) => {
+  const encoder = createGifEncoder(frames[0].width, frames[0].height);
+  frames.forEach(image => encoder.addFrame(image, delay));
+  return new Uint8Array(await encoder.finish().arrayBuffer());
+};
+
+/** Each decoded pixel's color, as an index into COLORS. */
+const colors = ({ indices, palette }: DecodedFrame) =>
+  indices.map(index => COLORS.findIndex(color => color.every((c, k) => c === palette[index][k])));
+
+describe('GIF encoder', () => {
+  it('writes the header, looping extension and trailer', async () => {
+    const bytes = await encode([frame(3, 2, () => 0)]);
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+    expect([...bytes.subarray(6, 10)]).toEqual([3, 0, 2, 0]);
+    expect(String.fromCharCode(...bytes.subarray(16, 27))).toBe('NETSCAPE2.0');
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+  });
+
+  it('decodes a small frame back to its pixels and delay', async () => {
+    const image = frame(5, 3, (x, y) => (x + y) % 3);
+    const [decoded] = decodeGif(await encode([image], 250));
+    expect([decoded.width, decoded.height, decoded.delay]).toEqual([5, 3, 25]);
+    expect(colors(decoded)).toEqual(Array.from({ length: 15 }, (_, p) => ((p % 5) + Math.floor(p / 5)) % 3));
+    expect(decoded.clears).toBe(1);
+  });
+
+  it('grows codes to 12 bits and clears the table when it fills', async () => {
+    // Pseudo-random pixels keep finding new strings, so the table fills past 4096 codes.
+    let seed = 1;
+    const noise = () => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 30;
+    const pixels = Array.from({ length: 200 * 150 }, noise);
+    const [decoded] = decodeGif(await encode([frame(200, 150, (x, y) => pixels[y * 200 + x])]));
+    expect(decoded.maxCodeSize).toBe(12);
+    // The opening clear, then at least one more when the table filled.
+    expect(decoded.clears).toBeGreaterThan(1);
+    expect(colors(decoded)).toEqual(pixels);
+  });
+
+  it('keeps each frame separate', async () => {
+    const frames = [frame(4, 4, () => 1), frame(4, 4, x => x % 2 ? 2 : 3)];
+    const decoded = decodeGif(await encode(frames));
+    expect(decoded.map(colors)).toEqual([
+      new Array(16).fill(1),
+      Array.from({ length: 16 }, (_, p) => (p % 2 ? 2 : 3)),
+    ]);
+  });
+});
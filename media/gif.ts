@@ -0,0 +1,185 @@
+// --- Animated GIF encoding: a palette per frame, LZW-compressed ---
+
+import type { RgbaImage } from './image';
+
+/** Appends bytes to a buffer that doubles as it fills. */
+const createByteWriter = () => {
+  let bytes = new Uint8Array(1 << 16);
+  let length = 0;
+  const reserve = (n: number) => {
+    if (length + n <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + n));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+  return {
+    byte: (b: number) => {
+      reserve(1);
+      bytes[length++] = b;
+    },
+    bytes: (data: ArrayLike<number>) => {
+      reserve(data.length);
+      bytes.set(data, length);
+      length += data.length;
+    },
+    /** Little-endian 16-bit. */
+    word: (w: number) => {
+      reserve(2);
+      bytes[length++] = w & 0xff;
+      bytes[length++] = (w >> 8) & 0xff;
+    },
+    result: () => bytes.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * Popularity quantization on 15-bit color: the 256 most common buckets
+ * become the palette (each the mean of its pixels), and every other bucket
+ * maps to its nearest entry. Frames here are mostly background and a few
+ * cell colors, so that keeps them exact where it matters.
+ */
+const quantize = ({ data }: RgbaImage) => {
+  const pixels = data.length / 4;
+  const keys = new Uint16Array(pixels);
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array(3 << 15);
+  for (let p = 0, i = 0; p < pixels; p++, i += 4) {
+    const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    keys[p] = key;
+    counts[key]++;
+    sums[key * 3] += data[i];
+    sums[key * 3 + 1] += data[i + 1];
+    sums[key * 3 + 2] += data[i + 2];
+  }
+  const used: number[] = [];
+  counts.forEach((count, key) => count && used.push(key));
+  const chosen = used.length > 256 ? used.sort((a, b) => counts[b] - counts[a]).slice(0, 256) : used;
+
+  const palette = chosen.map(key => [0, 1, 2].map(c => Math.round(sums[key * 3 + c] / counts[key])));
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  chosen.forEach((key, index) => (lookup[key] = index));
+  for (const key of used) {
+    if (lookup[key] >= 0) continue;
+    const [r, g, b] = [0, 1, 2].map(c => sums[key * 3 + c] / counts[key]);
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], index) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    lookup[key] = best;
+  }
+  const indices = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) indices[p] = lookup[keys[p]];
+  return { palette, indices };
+};
+
+/** Variable-width LZW with 12-bit codes, written as sub-blocks of up to 255 bytes. */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      // The table is full: start over rather than keep coding with stale entries.
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+export interface GifEncoder {
+  /** Frames must match the encoder's size; `delay` is how long this one shows, in milliseconds. */
+  addFrame: (image: RgbaImage, delay: number) => void;
+  finish: () => Blob;
+}
+
+/** Loops forever. Alpha is ignored, so flatten frames first. */
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const out = createByteWriter();
+  out.bytes(ascii('GIF89a'));
+  out.word(width);
+  out.word(height);
+  out.bytes([0, 0, 0]); // no global color table, background 0, square pixels
+  // NETSCAPE2.0 application extension: loop count 0, i.e. forever.
+  out.bytes([0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  return {
+    addFrame: (image, delay) => {
+      const { palette, indices } = quantize(image);
+      // Color tables hold a power of two entries, at least 2.
+      const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+
+      // Graphic control extension: leave the frame in place, show it for `delay` in hundredths of a second.
+      out.bytes([0x21, 0xf9, 0x04, 0x04]);
+      out.word(Math.max(2, Math.round(delay / 10)));
+      out.bytes([0x00, 0x00]);
+
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0x80 | (tableBits - 1)); // local color table of 2^tableBits entries
+      for (let i = 0; i < 1 << tableBits; i++) out.bytes(palette[i] ?? [0, 0, 0]);
+
+      writeLzw(out, indices, Math.max(2, tableBits));
+    },
+    finish: () => {
+      out.byte(0x3b);
+      return new Blob([out.result()], { type: 'image/gif' });
+    },
+  };
+};
@@ -0,0 +1,106 @@
+// --- Pixels for export: canvas frames flattened to RGB, and 1D spacetime diagrams ---
+
+import type { Config } from '../types';
+import { drawRows, type RenderContext } from '../simulation/renderer';
+
+/** Tightly packed 8-bit RGB, row by row. */
+export interface RgbImage {
+  width: number;
+  height: number;
+  rgb: Uint8Array;
+}
+
+/** Raw canvas pixels; ImageData in the browser. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/** Diagrams past this many pixels are drawn with smaller cells, down to one pixel each. */
+export const MAX_DIAGRAM_PIXELS = 1 << 25;
+
+type Rgb = [number, number, number];
+
+/**
+ * Composites a frame over the background and enlarges it `scale` times without smoothing.
+ * The canvas only turns opaque as trails build up, so raw alpha would show through.
+ */
+export const flattenFrame = ({ width, height, data }: RgbaImage, background: Rgb, scale = 1): RgbImage => {
+  const out = new Uint8Array(width * scale * height * scale * 3);
+  const rowBytes = width * scale * 3;
+  for (let y = 0; y < height; y++) {
+    const row = y * scale * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3] / 255;
+      const r = Math.round(data[i] * alpha + background[0] * (1 - alpha));
+      const g = Math.round(data[i + 1] * alpha + background[1] * (1 - alpha));
+      const b = Math.round(data[i + 2] * alpha + background[2] * (1 - alpha));
+      for (let dx = 0; dx < scale; dx++) {
+        const o = row + (x * scale + dx) * 3;
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+      }
+    }
+    for (let dy = 1; dy < scale; dy++) out.copyWithin(row + dy * rowBytes, row, row + rowBytes);
+  }
+  return { width: width * scale, height: height * scale, rgb: out };
+};
+
+/** The same frame as opaque RGBA, for canvases and video. */
+export const opaqueFrame = (image: RgbaImage, background: Rgb): RgbaImage => {
+  const { rgb } = flattenFrame(image, background);
+  const data = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+    data[j] = rgb[i];
+    data[j + 1] = rgb[i + 1];
+    data[j + 2] = rgb[i + 2];
+    data[j + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+/** Canvases stay this short while the diagram is drawn, a band of rows at a time. */
+const BAND_HEIGHT = 2048;
+
+/**
+ * One row of `cells` per generation, top to bottom, in the live 1D colors
+ * over the background, without the fade toward older rows. Cells shrink to
+ * fit MAX_DIAGRAM_PIXELS and are drawn without gaps.
+ */
+export const spacetimeImage = (config: Config, cells: Uint8Array, cols: number, cellSize: number): RgbImage => {
+  const total = cells.length / cols;
+  const size = Math.max(1, Math.min(cellSize, Math.floor(Math.sqrt(MAX_DIAGRAM_PIXELS / (cols * total)))));
+  const width = cols * size;
+  const bandRows = Math.max(1, Math.floor(BAND_HEIGHT / size));
+  const canvas = createCanvas(width, bandRows * size);
+  const ctx = canvas.getContext('2d') as RenderContext;
+  const rgb = new Uint8Array(width * total * size * 3);
+
+  for (let first = 0; first < total; first += bandRows) {
+    const count = Math.min(bandRows, total - first);
+    const rows = Array.from({ length: count }, (_, i) => cells.subarray((first + i) * cols, (first + i + 1) * cols));
+    ctx.fillStyle = config.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Cycle mode has no clock here, so it holds at the base hue.
+    drawRows(ctx, config, config.hue, rows, { top: 0, first, total, size, extent: size, fade: false });
+    const { data } = ctx.getImageData(0, 0, width, count * size);
+    const offset = first * size * width * 3;
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      rgb[offset + j] = data[i];
+      rgb[offset + j + 1] = data[i + 1];
+      rgb[offset + j + 2] = data[i + 2];
+    }
+  }
+  return { width, height: total * size, rgb };
+};
@@ -0,0 +1,42 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { encodePng } from './png';
+
+/** Chunks as type, data and stored CRC. */
+const readChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array; crc: number }[] = [];
+  for (let i = 8; i < bytes.length; ) {
+    const length = view.getUint32(i);
+    const type = String.fromCharCode(...bytes.subarray(i + 4, i + 8));
+    chunks.push({ type, data: bytes.subarray(i + 8, i + 8 + length), crc: view.getUint32(i + 8 + length) });
+    i += length + 12;
+  }
+  return chunks;
+};
+
+const encode = async (width: number, height: number, rgb: number[]) =>
+  new Uint8Array(await (await encodePng({ width, height, rgb: Uint8Array.from(rgb) })).arrayBuffer());
+
+describe('PNG encoder', () => {
+  it('writes the signature and a truecolor IHDR, IDAT and IEND', async () => {
+    const bytes = await encode(1, 1, [255, 0, 0]);
+    expect([...bytes.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = readChunks(bytes);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect([...chunks[0].data]).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+  });
+
+  it('checksums each chunk with the standard CRC-32', async () => {
+    const [ihdr, , iend] = readChunks(await encode(1, 1, [255, 0, 0]));
+    // Every 1x1 8-bit RGB PNG has this IHDR, and every PNG this IEND.
+    expect(ihdr.crc).toBe(0x907753de);
+    expect(iend.crc).toBe(0xae426082);
+  });
+
+  it('stores each scanline behind a zero filter byte', async () => {
+    const rgb = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+    const [, idat] = readChunks(await encode(2, 2, rgb));
+    expect([...inflateSync(idat.data)]).toEqual([0, 1, 2, 3, 4, 5, 6, 0, 7, 8, 9, 10, 11, 12]);
+  });
+});
@@ -0,0 +1,73 @@
+// --- Recording canvas frames to video (MediaRecorder) or an animated GIF ---
+
+import { createGifEncoder } from './gif';
+import { opaqueFrame, type RgbaImage } from './image';
+
+export type RecordingFormat = 'WebM' | 'GIF';
+
+export const RECORDING_EXTENSIONS: Record<RecordingFormat, string> = { WebM: 'webm', GIF: 'gif' };
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const canRecordWebM = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype &&
+  WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+export interface Recorder {
+  /** Frames of another size (the window was resized) are skipped. */
+  add: (image: RgbaImage) => void;
+  finish: () => Promise<Blob>;
+}
+
+/**
+ * Video plays back at the pace frames arrive, since MediaRecorder stamps them
+ * with the wall clock; GIF frames each last `frameDelay` milliseconds. Frames
+ * are flattened over `background`.
+ */
+export const createRecorder = (
+  format: RecordingFormat,
+  width: number,
+  height: number,
+  frameDelay: number,
+  background: [number, number, number],
+): Recorder => {
+  if (format === 'GIF') {
+    const encoder = createGifEncoder(width, height);
+    return {
+      add: image => {
+        if (image.width === width && image.height === height) encoder.addFrame(opaqueFrame(image, background), frameDelay);
+      },
+      finish: async () => encoder.finish(),
+    };
+  }
+
+  // Frames are painted onto a detached canvas whose stream only advances when asked.
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  recorder.start();
+  return {
+    add: image => {
+      if (image.width !== width || image.height !== height) return;
+      const { data } = opaqueFrame(image, background);
+      ctx.putImageData(new ImageData(data, width, height), 0, 0);
+      track.requestFrame();
+    },
+    finish: () =>
+      new Promise(resolve => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach(t => t.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+  };
+};
@@ -0,0 +1,118 @@
+// --- Color palettes: gradients sampled by the renderers, built-in and user-saved ---
+
+import type { ColorStop, Palette } from './types';
+
+/** Perceptually uniform matplotlib maps, sampled at nine stops, plus a plain grey ramp. */
+export const BUILTIN_PALETTES: Palette[] = [
+  {
+    name: 'Viridis',
+    stops: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#fde725'].map(
+      (color, i) => ({ at: i / 8, color }),
+    ),
+  },
+  {
+    name: 'Magma',
+    stops: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55964', '#fb8761', '#fec287', '#fcfdbf'].map(
+      (color, i) => ({ at: i / 8, color }),
+    ),
+  },
+  {
+    name: 'Monochrome',
+    stops: [
+      { at: 0, color: '#333333' },
+      { at: 1, color: '#ffffff' },
+    ],
+  },
+];
+
+export const MIN_STOPS = 2;
+export const MAX_STOPS = 10;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const rgbToHex = (rgb: number[]) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+/** The gradient at `t`, blended in RGB between the stops on either side; ends extend flat. */
+export const samplePalette = ({ stops }: Palette, t: number): [number, number, number] => {
+  const sorted = [...stops].sort((a, b) => a.at - b.at);
+  const upper = sorted.findIndex(stop => stop.at >= t);
+  if (upper <= 0) return hexToRgb(sorted[upper === 0 ? 0 : sorted.length - 1].color);
+  const lo = sorted[upper - 1];
+  const hi = sorted[upper];
+  const mix = hi.at > lo.at ? (t - lo.at) / (hi.at - lo.at) : 0;
+  const [a, b] = [hexToRgb(lo.color), hexToRgb(hi.color)];
+  return [0, 1, 2].map(c => Math.round(a[c] + (b[c] - a[c]) * mix)) as [number, number, number];
+};
+
+export const PALETTE_STEPS = 256;
+
+/** The palette sampled at PALETTE_STEPS points: CSS `r, g, b` triples, and RGBA bytes for textures. */
+export interface PaletteTable {
+  css: string[];
+  rgba: Uint8Array;
+}
+
+// Configs are replaced rather than mutated, so each palette object is sampled once.
+const tables = new WeakMap<Palette, PaletteTable>();
+
+export const paletteTable = (palette: Palette): PaletteTable => {
+  let table = tables.get(palette);
+  if (table) return table;
+  const css: string[] = [];
+  const rgba = new Uint8Array(PALETTE_STEPS * 4);
+  for (let i = 0; i < PALETTE_STEPS; i++) {
+    const rgb = samplePalette(palette, i / (PALETTE_STEPS - 1));
+    css.push(rgb.join(', '));
+    rgba.set([...rgb, 255], i * 4);
+  }
+  table = { css, rgba };
+  tables.set(palette, table);
+  return table;
+};
+
+/** `t` from 0 to 1. */
+export const paletteColor = (palette: Palette, t: number, alpha: number) => {
+  const index = Math.round(Math.min(1, Math.max(0, t)) * (PALETTE_STEPS - 1));
+  return `rgba(${paletteTable(palette).css[index]}, ${alpha})`;
+};
+
+// --- Text form, for links and storage: `Name:0-440154,0.5-21918c,1-fde725` ---
+
+export const encodePalette = ({ name, stops }: Palette) =>
+  `${name.replace(/[:,]/g, ' ')}:${stops.map(({ at, color }) => `${+at.toFixed(3)}-${color.slice(1)}`).join(',')}`;
+
+/** Null unless every stop parses and there are MIN_STOPS to MAX_STOPS of them. */
+export const decodePalette = (text: string): Palette | null => {
+  const split = text.lastIndexOf(':');
+  if (split < 0) return null;
+  const stops = text
+    .slice(split + 1)
+    .split(',')
+    .map((stop): ColorStop => {
+      const [at, color] = stop.split('-');
+      return { at: Number(at), color: `#${color}` };
+    });
+  const valid = stops.every(({ at, color }) => at >= 0 && at <= 1 && HEX_COLOR.test(color));
+  if (!valid || stops.length < MIN_STOPS || stops.length > MAX_STOPS) return null;
+  return { name: text.slice(0, split) || 'Custom', stops };
+};
+
+const STORAGE_KEY = 'emergence.palettes';
+
+/** Palettes saved from the gradient editor; empty when storage is unavailable. */
+export const loadUserPalettes = (): Palette[] => {
+  try {
+    const saved: string[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return saved.flatMap(text => decodePalette(text) ?? []);
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPalettes = (palettes: Palette[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes.map(encodePalette)));
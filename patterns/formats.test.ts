@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectFormat,
+  looksLikePattern,
+  normalizePattern,
+  parsePattern,
+  PatternParseError,
+  PATTERN_FORMATS,
+  serializePattern,
+  type Pattern,
+  type PatternFormat,
+} from './formats';
+
+/** Cells with their states as sorted `x,y:state` keys, so order doesn't matter. */
+const contents = ({ cells, states }: Pattern) => cells.map(([x, y], i) => `${x},${y}:${states?.[i] ?? 1}`).sort();
+
+const GLIDER = normalizePattern([[1, 0], [2, 1], [0, 2], [1, 2], [2, 2]], { name: 'Glider' });
+
+/** Sparse enough to need blank rows and wide enough to wrap RLE lines. */
+const SPARSE = normalizePattern([
+  ...Array.from({ length: 60 }, (_, i): [number, number] => [i * 2, 0]),
+  [0, 4],
+  [119, 7],
+]);
+
+const roundTrip = (pattern: Pattern, format: PatternFormat) => parsePattern(serializePattern(pattern, format));
+
+describe('pattern formats', () => {
+  it.each(PATTERN_FORMATS)('round-trips through %s', format => {
+    for (const pattern of [GLIDER, SPARSE]) {
+      const text = serializePattern(pattern, format);
+      expect(detectFormat(text)).toBe(format);
+      const parsed = parsePattern(text);
+      expect(contents(parsed)).toEqual(contents(pattern));
+      expect([parsed.width, parsed.height]).toEqual([pattern.width, pattern.height]);
+      // And once more, so the serializer reads its own output back the same.
+      expect(serializePattern(parsed, format)).toBe(text);
+    }
+  });
+
+  it('keeps the name and rule in RLE', () => {
+    const parsed = roundTrip({ ...GLIDER, rule: 'B3/S23' }, 'RLE');
+    expect(parsed.name).toBe('Glider');
+    expect(parsed.rule).toBe('B3/S23');
+  });
+
+  it('wraps RLE lines under 70 characters', () => {
+    serializePattern(SPARSE, 'RLE').split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(70));
+  });
+
+  it('round-trips multi-state RLE with p-y prefixes', () => {
+    const states = [1, 2, 24, 25, 48, 49, 200, 264];
+    const pattern = normalizePattern(states.map((_, i): [number, number] => [i, i % 2]), { states });
+    const text = serializePattern(pattern, 'RLE');
+    expect(text).toContain('pA');
+    expect(text).toContain('yX');
+    expect(contents(parsePattern(text))).toEqual(contents(pattern));
+  });
+
+  it('reads multi-state RLE with dead dots and run counts', () => {
+    const parsed = parsePattern('x = 5, y = 2, rule = B2/S/C3\n2.B$A2B.pA!');
+    expect(contents(parsed)).toEqual(['0,1:1', '1,1:2', '2,0:2', '2,1:2', '4,1:25']);
+  });
+
+  it('reads Life 1.06 with negative coordinates relative to the top-left corner', () => {
+    const parsed = parsePattern('#Life 1.06\n-1 -1\n0 -1\n1 0\n');
+    expect(contents(parsed)).toEqual(['0,0:1', '1,0:1', '2,1:1']);
+  });
+
+  it.each([
+    ['an RLE header without y', 'x = 3, z = 3\nbo$2bo$3o!'],
+    ['a stray character in an RLE body', 'x = 3, y = 3\nbo$2%o$3o!'],
+    ['an RLE body without its header', 'bo$2bo$3o!'],
+    ['a stray character in plaintext', '!Name: Oops\n.O.\n..X\n'],
+    ['a Life 1.06 line that is not a coordinate pair', '#Life 1.06\n0 0\n1 2 3\n'],
+    ['a pattern with no live cells', '!Name: Empty\n...\n'],
+    ['an RLE pattern with no live cells', 'x = 2, y = 2\n2b$2b!'],
+  ])('rejects %s', (_, text) => {
+    expect(() => parsePattern(text)).toThrow(PatternParseError);
+  });
+
+  it('tells patterns from other pasted text', () => {
+    PATTERN_FORMATS.forEach(format => expect(looksLikePattern(serializePattern(GLIDER, format))).toBe(true));
+    expect(looksLikePattern('.O\n..O\nOOO')).toBe(true);
+    expect(looksLikePattern('https://example.com/#mode=2D')).toBe(false);
+    expect(looksLikePattern('Hello')).toBe(false);
+    expect(looksLikePattern('...\n...')).toBe(false);
+  });
+});
@@ -0,0 +1,257 @@
+// --- Pattern File Formats (RLE, Plaintext .cells, Life 1.06) ---
+
+export type PatternFormat = 'RLE' | 'Plaintext' | 'Life 1.06';
+
+export const PATTERN_FORMATS: PatternFormat[] = ['RLE', 'Plaintext', 'Life 1.06'];
+
+export const FILE_EXTENSIONS: Record<PatternFormat, string> = {
+  RLE: 'rle',
+  Plaintext: 'cells',
+  'Life 1.06': 'lif',
+};
+
+/** Live cells relative to the pattern's top-left corner. */
+export interface Pattern {
+  width: number;
+  height: number;
+  cells: [number, number][];
+  /** Per-cell Generations state, parallel to `cells`; every cell is state 1 when omitted. */
+  states?: number[];
+  name?: string;
+  /** Rulestring as written in the file, e.g. `B3/S23`. */
+  rule?: string;
+}
+
+export class PatternParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternParseError';
+  }
+}
+
+/** Shifts cells so the bounding box starts at (0, 0) and measures it. */
+export const normalizePattern = (cells: [number, number][], extra: Partial<Omit<Pattern, 'cells'>> = {}): Pattern => {
+  if (cells.length === 0) return { width: 0, height: 0, cells: [], ...extra };
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of cells) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return {
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+    cells: cells.map(([x, y]) => [x - minX, y - minY]),
+    ...extra,
+  };
+};
+
+// --- Parsing ---
+
+const parseRLE = (text: string): Pattern => {
+  const lines = text.split(/\r?\n/);
+  let name: string | undefined;
+  let rule: string | undefined;
+  let header: RegExpMatchArray | null = null;
+  let body = '';
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#')) {
+      if (trimmed.startsWith('#N')) name = trimmed.slice(2).trim() || undefined;
+      continue;
+    }
+    if (!header && /^x\s*=/.test(trimmed)) {
+      header = trimmed.match(/^x\s*=\s*(\d+)\s*,\s*y\s*=\s*(\d+)(?:\s*,\s*rule\s*=\s*(\S+))?/);
+      if (!header) throw new PatternParseError(`Malformed RLE header: "${trimmed}"`);
+      rule = header[3];
+      continue;
+    }
+    body += trimmed;
+    if (trimmed.includes('!')) break;
+  }
+  if (!header) throw new PatternParseError('RLE is missing its "x = ..., y = ..." header line.');
+
+  // Two-state RLE uses b/o; multi-state RLE uses . for dead, A-X for states 1-24 and p-y prefixes above that.
+  const cells: [number, number][] = [];
+  const states: number[] = [];
+  let x = 0;
+  let y = 0;
+  let count = '';
+  let prefix = 0;
+  for (const ch of body) {
+    if (ch === '!') break;
+    if (ch >= '0' && ch <= '9') {
+      count += ch;
+      continue;
+    }
+    if (ch >= 'p' && ch <= 'y') {
+      prefix = ch.charCodeAt(0) - 111;
+      continue;
+    }
+    const run = count ? parseInt(count) : 1;
+    count = '';
+    if (ch === 'b' || ch === '.') {
+      x += run;
+    } else if (ch === '$') {
+      y += run;
+      x = 0;
+    } else if (/[a-zA-Z]/.test(ch)) {
+      const state = ch >= 'A' && ch <= 'X' ? prefix * 24 + ch.charCodeAt(0) - 64 : 1;
+      for (let i = 0; i < run; i++) {
+        cells.push([x + i, y]);
+        states.push(state);
+      }
+      x += run;
+    } else if (!/\s/.test(ch)) {
+      throw new PatternParseError(`Unexpected "${ch}" in RLE body.`);
+    }
+    prefix = 0;
+  }
+  const multiState = states.some(s => s > 1);
+  return {
+    width: parseInt(header[1]),
+    height: parseInt(header[2]),
+    cells,
+    ...(multiState ? { states } : {}),
+    name,
+    rule,
+  };
+};
+
+const parsePlaintext = (text: string): Pattern => {
+  const cells: [number, number][] = [];
+  let name: string | undefined;
+  let y = 0;
+  let width = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('!')) {
+      const match = line.match(/^!Name:\s*(.*)$/);
+      if (match) name = match[1].trim() || undefined;
+      continue;
+    }
+    const row = line.trimEnd();
+    for (let x = 0; x < row.length; x++) {
+      const ch = row[x];
+      if (ch === 'O' || ch === '*') cells.push([x, y]);
+      else if (ch !== '.') throw new PatternParseError(`Unexpected "${ch}" in plaintext row ${y + 1}.`);
+    }
+    width = Math.max(width, row.length);
+    y++;
+  }
+  // Trailing blank lines aren't part of the pattern.
+  const height = cells.reduce((h, [, cy]) => Math.max(h, cy + 1), 0);
+  return { width, height, cells, name };
+};
+
+const parseLife106 = (text: string): Pattern => {
+  const cells: [number, number][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const match = trimmed.match(/^(-?\d+)\s+(-?\d+)$/);
+    if (!match) throw new PatternParseError(`Expected "x y" coordinates, got "${trimmed}".`);
+    cells.push([parseInt(match[1]), parseInt(match[2])]);
+  }
+  return normalizePattern(cells);
+};
+
+export const detectFormat = (text: string): PatternFormat => {
+  const trimmed = text.trimStart();
+  if (/^#Life 1\.06/i.test(trimmed)) return 'Life 1.06';
+  if (/^x\s*=/m.test(text)) return 'RLE';
+  return 'Plaintext';
+};
+
+/**
+ * Whether text reads as a pattern at a glance: a Life 1.06 or RLE header,
+ * or plaintext rows of only `.`, `O` and `*`. Plaintext is the fallback
+ * format, so arbitrary text would otherwise only fail once parsed.
+ */
+export const looksLikePattern = (text: string) => {
+  if (detectFormat(text) !== 'Plaintext') return true;
+  const rows = text.split(/\r?\n/).filter(line => !line.startsWith('!') && line.trim());
+  return rows.length > 0 && rows.every(row => /^[.O*]+$/.test(row.trimEnd())) && rows.some(row => /[O*]/.test(row));
+};
+
+/** Parses a pattern, detecting the format when it isn't given. Throws PatternParseError. */
+export const parsePattern = (text: string, format: PatternFormat = detectFormat(text)): Pattern => {
+  const pattern = format === 'RLE' ? parseRLE(text) : format === 'Life 1.06' ? parseLife106(text) : parsePlaintext(text);
+  if (pattern.cells.length === 0) throw new PatternParseError('Pattern has no live cells.');
+  return pattern;
+};
+
+// --- Serialization ---
+
+const rows = (pattern: Pattern) => {
+  const grid = Array.from({ length: pattern.height }, () => new Array<number>(pattern.width).fill(0));
+  pattern.cells.forEach(([x, y], i) => { grid[y][x] = pattern.states?.[i] ?? 1; });
+  return grid;
+};
+
+const multiStateTag = (state: number) => {
+  if (state === 0) return '.';
+  const letter = String.fromCharCode(64 + ((state - 1) % 24) + 1);
+  const prefix = Math.floor((state - 1) / 24);
+  return prefix ? String.fromCharCode(111 + prefix) + letter : letter;
+};
+
+const toRLE = (pattern: Pattern) => {
+  const multiState = pattern.states?.some(s => s > 1) ?? false;
+  const tag = (state: number) => (multiState ? multiStateTag(state) : state ? 'o' : 'b');
+  const runs: string[] = [];
+  const push = (count: number, tag: string) => runs.push(count > 1 ? `${count}${tag}` : tag);
+  let pendingRows = 0;
+  rows(pattern).forEach(row => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === 0) end--;
+    if (end === 0) {
+      pendingRows++;
+      return;
+    }
+    if (runs.length) push(pendingRows + 1, '$');
+    pendingRows = 0;
+    let x = 0;
+    while (x < end) {
+      let run = 1;
+      while (x + run < end && row[x + run] === row[x]) run++;
+      push(run, tag(row[x]));
+      x += run;
+    }
+  });
+
+  // RLE lines should stay under 70 characters.
+  const lines: string[] = [];
+  let line = '';
+  for (const run of [...runs, '!']) {
+    if (line.length + run.length > 70) {
+      lines.push(line);
+      line = '';
+    }
+    line += run;
+  }
+  lines.push(line);
+
+  const header = `x = ${pattern.width}, y = ${pattern.height}${pattern.rule ? `, rule = ${pattern.rule}` : ''}`;
+  return [...(pattern.name ? [`#N ${pattern.name}`] : []), header, ...lines].join('\n') + '\n';
+};
+
+const toPlaintext = (pattern: Pattern) => {
+  const body = rows(pattern).map(row => row.map(c => (c ? 'O' : '.')).join('').replace(/\.+$/, ''));
+  return [`!Name: ${pattern.name ?? 'Untitled'}`, '!', ...body].join('\n') + '\n';
+};
+
+const toLife106 = (pattern: Pattern) =>
+  ['#Life 1.06', ...pattern.cells.map(([x, y]) => `${x} ${y}`)].join('\n') + '\n';
+
+export const serializePattern = (pattern: Pattern, format: PatternFormat) => {
+  switch (format) {
+    case 'RLE':
+      return toRLE(pattern);
+    case 'Plaintext':
+      return toPlaintext(pattern);
+    case 'Life 1.06':
+      return toLife106(pattern);
+  }
+};
@@ -0,0 +1,82 @@
+// --- Pattern Library: built-in objects plus the user's own, kept in localStorage ---
+
+import { normalizePattern, parsePattern, serializePattern, type Pattern } from './formats';
+
+export interface LibraryEntry {
+  name: string;
+  pattern: Pattern;
+  /** Built-in entries can't be deleted. */
+  builtin: boolean;
+}
+
+const BUILTIN_RLE: { name: string; rle: string }[] = [
+  { name: 'Glider', rle: 'x = 3, y = 3, rule = B3/S23\nbo$2bo$3o!' },
+  {
+    name: 'Gosper Glider Gun',
+    rle: [
+      'x = 36, y = 9, rule = B3/S23',
+      '24bo$22bobo$12b2o6b2o12b2o$11bo3bo4b2o12b2o$2o8bo5bo3b2o$2o8bo3bob2o4bobo$10bo5bo7bo$11bo3bo$12b2o!',
+    ].join('\n'),
+  },
+  { name: 'R-pentomino', rle: 'x = 3, y = 3, rule = B3/S23\nb2o$2o$bo!' },
+  { name: 'HighLife Replicator', rle: 'x = 5, y = 5, rule = B36/S23\n2b3o$bo2bo$o3bo$o2bo$3o!' },
+  {
+    name: 'Pulsar',
+    rle: [
+      'x = 13, y = 13, rule = B3/S23',
+      '2b3o3b3o2$o4bobo4bo$o4bobo4bo$o4bobo4bo$2b3o3b3o2$2b3o3b3o$o4bobo4bo$o4bobo4bo$o4bobo4bo2$2b3o3b3o!',
+    ].join('\n'),
+  },
+];
+
+export const BUILTIN_LIBRARY: LibraryEntry[] = BUILTIN_RLE.map(({ name, rle }) => ({
+  name,
+  pattern: { ...parsePattern(rle, 'RLE'), name },
+  builtin: true,
+}));
+
+const STORAGE_KEY = 'emergence.library';
+
+/** Saved patterns, skipping any that no longer parse; empty when storage is unavailable. */
+export const loadUserLibrary = (): LibraryEntry[] => {
+  try {
+    const saved: { name: string; rle: string }[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return saved.flatMap(({ name, rle }) => {
+      try {
+        return [{ name, pattern: { ...parsePattern(rle, 'RLE'), name }, builtin: false }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserLibrary = (entries: LibraryEntry[]) => {
+  const saved = entries
+    .filter(entry => !entry.builtin)
+    .map(({ name, pattern }) => ({ name, rle: serializePattern(pattern, 'RLE') }));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+// --- Orientation ---
+
+export interface Orientation {
+  /** Clockwise quarter turns, 0..3. */
+  rotation: number;
+  /** Mirrored left to right before rotating. */
+  flipped: boolean;
+}
+
+export const IDENTITY: Orientation = { rotation: 0, flipped: false };
+
+export const orientPattern = (pattern: Pattern, { rotation, flipped }: Orientation): Pattern => {
+  const cells = pattern.cells.map(([x, y]): [number, number] => {
+    let [cx, cy] = flipped ? [pattern.width - 1 - x, y] : [x, y];
+    for (let turn = 0; turn < ((rotation % 4) + 4) % 4; turn++) [cx, cy] = [-cy, cx];
+    return [cx, cy];
+  });
+  const { states, name, rule } = pattern;
+  return normalizePattern(cells, { states, name, rule });
+};
@@ -0,0 +1,184 @@
+// --- Permalinks: the full Config, and optionally the grid, in the URL hash ---
+
+import {
+  BOUNDARIES,
+  formatRule,
+  isMoore1,
+  MAX_COLORS_1D,
+  MAX_KERNEL_RADIUS,
+  MAX_RADIUS_1D,
+  MAX_SEED,
+  MAX_TABLE_SIZE,
+  MIN_KERNEL_RADIUS,
+  parseRule,
+  ROW_SEED_KINDS,
+  ruleCount,
+  ruleTableSize,
+  type Boundary,
+  type RowSeedKind,
+  type WolframRule,
+} from './engine';
+import { decodePalette, encodePalette } from './palettes';
+import { parsePattern, serializePattern, type Pattern } from './patterns/formats';
+import type { ColorMode, Config, GridStyle, Mode, SettlePolicy, Universe } from './types';
+
+const MODES: Mode[] = ['1D', '2D', 'Continuous'];
+const COLOR_MODES: ColorMode[] = ['Classic', 'Age', 'Density', 'Cycle'];
+const UNIVERSES: Universe[] = ['Bounded', 'Infinite'];
+const SETTLE_POLICIES: SettlePolicy[] = ['Continue', 'Pause', 'Reseed', 'NextPreset'];
+const GRID_STYLES: GridStyle[] = ['Gap', 'Lines', 'None'];
+
+/**
+ * Pinned sizes past these are refused. A 4K screen at the smallest
+ * resolution makes about 2M cells, and every cell is held several times over
+ * in buffers, counts, ages and undo keyframes.
+ */
+const MAX_GRID_SIDE = 4096;
+const MAX_GRID_CELLS = 1 << 22;
+
+export interface Permalink {
+  config: Config;
+  /** Cells across and down when the link was made, so its seed lays out the same soup on any window. Decoding pins it as `config.gridSize`. */
+  size?: { cols: number; rows: number };
+  /** Hand-edited 2D grid to place once the simulation is up. */
+  pattern?: Pattern;
+  /** What the link asked for that was refused, for the UI to report. */
+  warning?: string;
+}
+
+/** `#key=value&...`; the grid travels as RLE when there is one. */
+export const encodePermalink = ({ config, size, pattern }: Permalink) => {
+  const { rule1D, seed1D, lenia } = config;
+  const params = new URLSearchParams({
+    mode: config.mode,
+    rule: formatRule({
+      birth: config.birth2D,
+      survival: config.survival2D,
+      states: config.states2D,
+      neighborhood: config.neighborhood2D,
+    }),
+    code: rule1D.code.toString(),
+    colors: `${rule1D.colors}`,
+    range: `${rule1D.radius}`,
+    totalistic: rule1D.totalistic ? '1' : '0',
+    row: seed1D.kind,
+    rowDensity: `${seed1D.density}`,
+    pattern: seed1D.pattern,
+    drawn: seed1D.drawn.join(''),
+    lenia: [lenia.radius, lenia.mu, lenia.sigma, lenia.dt].join(','),
+    universe: config.universe,
+    seed: `${config.seed}`,
+    density: `${config.density}`,
+    boundary: config.boundary,
+    hyperstep: `${config.stepLog2}`,
+    settle: config.onSettle,
+    res: `${config.resolution}`,
+    speed: `${config.speed}`,
+    hue: `${config.hue}`,
+    color: config.colorMode,
+    bg: config.background.slice(1),
+    grid: config.grid,
+    trails: `${config.trails}`,
+  });
+  // Hue coloring is the default, so only a palette needs spelling out.
+  if (config.palette) params.set('palette', encodePalette(config.palette));
+  if (size) params.set('size', `${size.cols}x${size.rows}`);
+  if (pattern) params.set('rle', serializePattern(pattern, 'RLE'));
+  return `#${params}`;
+};
+
+/** Anything missing or malformed keeps its value from `defaults`, so old and hand-trimmed links still open. */
+export const decodePermalink = (hash: string, defaults: Config): Permalink => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const config: Config = { ...defaults };
+
+  const oneOf = <T extends string>(key: string, values: readonly T[], fallback: T): T => {
+    const value = params.get(key);
+    return values.includes(value as T) ? (value as T) : fallback;
+  };
+  const numberIn = (key: string, min: number, max: number, fallback: number) => {
+    const value = Number(params.get(key) ?? NaN);
+    return Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+  };
+
+  config.mode = oneOf('mode', MODES, defaults.mode);
+
+  try {
+    const rule = params.get('rule');
+    if (rule) {
+      const spec = parseRule(rule);
+      config.birth2D = spec.birth;
+      config.survival2D = spec.survival;
+      config.states2D = spec.states;
+      config.neighborhood2D = spec.neighborhood;
+    }
+  } catch {
+    // Keep the default rule.
+  }
+
+  const family: Omit<WolframRule, 'code'> = {
+    colors: Math.floor(numberIn('colors', 2, MAX_COLORS_1D, defaults.rule1D.colors)),
+    radius: Math.floor(numberIn('range', 1, MAX_RADIUS_1D, defaults.rule1D.radius)),
+    totalistic: params.get('totalistic') === '1',
+  };
+  const code = params.get('code');
+  if (
+    code && /^\d+$/.test(code) && BigInt(code) < ruleCount(family) &&
+    (family.totalistic || ruleTableSize(family) <= MAX_TABLE_SIZE)
+  ) {
+    config.rule1D = { code: BigInt(code), ...family };
+  }
+
+  config.seed1D = {
+    kind: oneOf<RowSeedKind>('row', ROW_SEED_KINDS, defaults.seed1D.kind),
+    density: numberIn('rowDensity', 0, 1, defaults.seed1D.density),
+    pattern: (params.get('pattern') ?? defaults.seed1D.pattern).replace(/\D/g, ''),
+    drawn: params.has('drawn')
+      ? Array.from(params.get('drawn')!.replace(/\D/g, ''), Number)
+      : defaults.seed1D.drawn,
+  };
+
+  const [radius, mu, sigma, dt] = (params.get('lenia') ?? '').split(',').map(Number);
+  if (
+    Number.isInteger(radius) && radius >= MIN_KERNEL_RADIUS && radius <= MAX_KERNEL_RADIUS &&
+    mu > 0 && sigma > 0 && dt > 0 && dt <= 1
+  ) {
+    config.lenia = { radius, mu, sigma, dt };
+  }
+
+  config.universe = oneOf('universe', UNIVERSES, defaults.universe);
+  // Same restriction as the UI: HashLife only runs two-state radius-1 Moore rules without B0.
+  if (config.birth2D.includes(0) || config.states2D > 2 || !isMoore1(config.neighborhood2D)) config.universe = 'Bounded';
+  config.seed = Math.floor(numberIn('seed', 0, MAX_SEED, defaults.seed));
+  const [cols, rows] = (params.get('size') ?? '').split('x').map(Number);
+  const side = (n: number) => Number.isInteger(n) && n >= 1;
+  config.gridSize = defaults.gridSize;
+  let warning: string | undefined;
+  if (side(cols) && side(rows)) {
+    if (cols <= MAX_GRID_SIDE && rows <= MAX_GRID_SIDE && cols * rows <= MAX_GRID_CELLS) config.gridSize = { cols, rows };
+    else warning = `The link's ${cols}x${rows} grid is too big to open here, so the grid fits the window instead.`;
+  }
+  config.density = numberIn('density', 0, 1, defaults.density);
+  config.boundary = oneOf<Boundary>('boundary', BOUNDARIES, defaults.boundary);
+  config.stepLog2 = Math.floor(numberIn('hyperstep', 0, 20, defaults.stepLog2));
+  config.onSettle = oneOf('settle', SETTLE_POLICIES, defaults.onSettle);
+  config.resolution = Math.floor(numberIn('res', 2, 32, defaults.resolution));
+  config.speed = Math.floor(numberIn('speed', 1, 60, defaults.speed));
+  config.hue = numberIn('hue', 0, 360, defaults.hue);
+  config.colorMode = oneOf('color', COLOR_MODES, defaults.colorMode);
+  const palette = params.get('palette');
+  config.palette = palette ? decodePalette(palette) ?? defaults.palette : null;
+  const bg = params.get('bg') ?? '';
+  config.background = /^[0-9a-f]{6}$/i.test(bg) ? `#${bg.toLowerCase()}` : defaults.background;
+  config.grid = oneOf('grid', GRID_STYLES, defaults.grid);
+  config.trails = numberIn('trails', 0, 0.95, defaults.trails);
+
+  let pattern: Pattern | undefined;
+  try {
+    const rle = params.get('rle');
+    if (rle) pattern = parsePattern(rle, 'RLE');
+  } catch {
+    // A damaged grid still leaves a usable config.
+  }
+  return { config, pattern, warning };
+};
@@ -0,0 +1,81 @@
+import type { Config } from '../types';
+import type { RequestName, SimulationCommand, SimulationEvent, SimulationRequests } from './protocol';
+import { createRuntime } from './runtime';
+
+export interface SimulationClient {
+  send: (command: SimulationCommand) => void;
+  request: <K extends RequestName>(name: K, params: SimulationRequests[K]['params']) => Promise<SimulationRequests[K]['result']>;
+  dispose: () => void;
+}
+
+/**
+ * Hands the canvas to the simulation worker. Falls back to running the same
+ * runtime on the main thread when OffscreenCanvas or module workers are missing.
+ */
+export const createSimulationClient = (
+  canvas: HTMLCanvasElement,
+  init: { width: number; height: number; config: Config; running: boolean },
+  onEvent: (event: SimulationEvent) => void,
+): SimulationClient => {
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  /** Nothing will answer the requests still waiting, so settle them rather than leave the UI busy. */
+  const failAll = (message: string) => {
+    pending.forEach(({ reject }) => reject(new Error(message)));
+    pending.clear();
+  };
+  const receive = (event: SimulationEvent) => {
+    if (event.type === 'reply') {
+      const request = pending.get(event.id);
+      pending.delete(event.id);
+      if (event.error !== undefined) request?.reject(new Error(event.error));
+      else request?.resolve(event.result);
+    } else if (event.type === 'error') {
+      failAll(event.message);
+    } else {
+      onEvent(event);
+    }
+  };
+  const requester = (send: (command: SimulationCommand) => void): SimulationClient['request'] =>
+    (name, params) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+        send({ type: 'request', id, name, params } as SimulationCommand);
+      });
+
+  if (typeof Worker !== 'undefined' && 'transferControlToOffscreen' in canvas) {
+    let worker: Worker | null = null;
+    try {
+      worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SimulationEvent>) => receive(e.data);
+      worker.onerror = (e: ErrorEvent) => failAll(e.message || 'The simulation worker failed.');
+      worker.onmessageerror = () => failAll('A reply from the simulation worker could not be read.');
+      const offscreen = canvas.transferControlToOffscreen();
+      offscreen.width = init.width;
+      offscreen.height = init.height;
+      worker.postMessage({ type: 'init', canvas: offscreen, ...init } satisfies SimulationCommand, [offscreen]);
+      const active = worker;
+      const send = (command: SimulationCommand) => active.postMessage(command);
+      return {
+        send,
+        request: requester(send),
+        dispose: () => active.terminate(),
+      };
+    } catch {
+      // Fall through to the main-thread runtime.
+      worker?.terminate();
+    }
+  }
+
+  const runtime = createRuntime(receive);
+  canvas.width = init.width;
+  canvas.height = init.height;
+  runtime.handle({ type: 'init', ...init }, canvas.getContext('2d') ?? undefined);
+  const send = (command: SimulationCommand) => runtime.handle(command);
+  return {
+    send,
+    request: requester(send),
+    dispose: () => runtime.stop(),
+  };
+};
@@ -0,0 +1,112 @@
+import type { Config } from '../types';
+import type { CatalogEntry, GridStats, Settled, StatsSample } from '../engine';
+import type { Pattern } from '../patterns/formats';
+
+/** Canvas-pixel rectangle, e.g. a selection drawn over the grid. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Freehand 2D tools: paint live cells, clear them, or scatter live cells at random. */
+export type BrushTool = 'Draw' | 'Erase' | 'Spray';
+
+/** Census off, counts only, or counts plus boxes (and names) drawn over the objects. */
+export type CensusView = 'Off' | 'Counts' | 'Boxes' | 'Labels';
+
+/** How cells are drawn; WebGL covers the bounded 2D grid and leaves everything else to Canvas2D. */
+export type RendererBackend = 'WebGL' | 'Canvas2D';
+
+/** Objects of one catalog type on the grid; `entry` is null for everything unrecognized. */
+export interface CensusCount {
+  entry: CatalogEntry | null;
+  count: number;
+}
+
+/** 1D cell states, one row of `cols` per generation from the first row down. */
+export interface SpacetimeDiagram {
+  cols: number;
+  cells: Uint8Array;
+}
+
+// --- Requests: UI -> Simulation -> UI, answered once by id ---
+
+export interface SimulationRequests {
+  /** Live cells of the 2D grid, or of `region` only, trimmed to their bounding box. */
+  capture: { params: { region?: Rect }; result: Pattern };
+  /** The canvas as drawn, trails and overlays included; null before it has a context. */
+  frame: { params: Record<string, never>; result: ImageData | null };
+  /** The 1D run replayed from its first row under the current rule; may stop short of `generations` when huge. */
+  spacetime: { params: { generations: number }; result: SpacetimeDiagram };
+}
+
+export type RequestName = keyof SimulationRequests;
+
+export type SimulationRequest = {
+  [K in RequestName]: { type: 'request'; id: number; name: K; params: SimulationRequests[K]['params'] };
+}[RequestName];
+
+// --- Messages: UI -> Simulation ---
+
+export type SimulationCommand =
+  | { type: 'init'; canvas?: OffscreenCanvas; width: number; height: number; config: Config; running: boolean }
+  | { type: 'config'; config: Config }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'running'; running: boolean }
+  /** Reseeds the grid, under `config` first when given so a new rule never steps the old soup. */
+  | { type: 'reset'; config?: Config }
+  /**
+   * Flips the cell under (px, py); in continuous mode, deposits a soft blob there instead.
+   * `continues` marks the rest of a drag stroke, which undoes together with its first cell.
+   */
+  | { type: 'toggle'; px: number; py: number; continues?: boolean }
+  /** Applies a round brush of `size` cells across; a continued stroke also covers the gap since its last point. */
+  | { type: 'brush'; px: number; py: number; tool: BrushTool; size: number; continues?: boolean }
+  /** Adds `pattern`'s live cells centered on (px, py), leaving the rest of the grid alone. */
+  | { type: 'stamp'; px: number; py: number; pattern: Pattern }
+  /** Fills a canvas rectangle with live cells. */
+  | { type: 'fill'; region: Rect }
+  /** Previews a stamp under the pointer; a null pattern hides it. */
+  | { type: 'ghost'; pattern: Pattern | null; px: number; py: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  /** Moves `delta` generations through the timeline; 1D only steps forward. */
+  | { type: 'step'; delta: number }
+  /** Jumps to a recorded generation, or simulates up to one past the end. */
+  | { type: 'seek'; generation: number }
+  | { type: 'pan'; dx: number; dy: number }
+  | { type: 'zoom'; factor: number; px: number; py: number }
+  | { type: 'recenter' }
+  | { type: 'census'; view: CensusView }
+  /** Requests a backend; WebGL falls back to Canvas2D where it can't start. */
+  | { type: 'renderer'; backend: RendererBackend }
+  /** Clears the 2D grid and centers `pattern` on it. */
+  | { type: 'place'; pattern: Pattern }
+  /** Runs `generations` more steps, paused or not, sending the frame drawn after each; 0 stops early. */
+  | { type: 'record'; generations: number }
+  | SimulationRequest;
+
+// --- Messages: Simulation -> UI ---
+
+export type SimulationEvent =
+  | { type: 'generation'; generation: number }
+  /** Null in continuous mode, which has no live/dead cells to count. */
+  | { type: 'stats'; generation: number; stats: GridStats | null }
+  /** Every generation since the last batch, oldest first; each replaces what was sent for its generation onwards. */
+  | { type: 'samples'; samples: StatsSample[] }
+  /** Most common first; null when the census is off, outside 2D, or the pattern is too big to survey. */
+  | { type: 'census'; counts: CensusCount[] | null }
+  /** The backend actually in use, after any fallback. */
+  | { type: 'renderer'; backend: RendererBackend }
+  /** A 2D run died out or started repeating; null again once edits or time travel change its course. */
+  | { type: 'settled'; settled: Settled | null }
+  /** Generations that undo, redo and seeking can reach right now. */
+  | { type: 'timeline'; first: number; last: number; canUndo: boolean; canRedo: boolean }
+  /** One recorded frame; `remaining` reaches 0 on the last. */
+  | { type: 'frame'; image: ImageData; remaining: number }
+  /** `error` is set instead of `result` when the request failed. */
+  | { type: 'reply'; id: number; result?: unknown; error?: string }
+  /** The worker couldn't read a command; requests still waiting will get no reply. */
+  | { type: 'error'; message: string };
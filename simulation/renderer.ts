@@ -0,0 +1,360 @@
+import type { Config } from '../types';
+import type { Pattern } from '../patterns/formats';
+import { hexToRgb, paletteColor } from '../palettes';
+import {
+  MAX_AGE,
+  neighborhoodSize,
+  type CensusObject,
+  type ElementaryEngine,
+  type HashLifeEngine,
+  type LeniaEngine,
+  type LifeEngine,
+} from '../engine';
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Infinite universe camera: the world cell at the canvas center, and a multiplier on `resolution`. */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Scene {
+  config: Config;
+  width: number;
+  height: number;
+  cycleHue: number;
+  life: LifeEngine | null;
+  elementary: ElementaryEngine | null;
+  hashlife: HashLifeEngine | null;
+  lenia: LeniaEngine | null;
+  viewport: Viewport;
+  /** Objects to outline, in cell coordinates; null when the overlay is off. */
+  census: CensusObject[] | null;
+  censusLabels: boolean;
+  /** Stamp preview following the pointer. */
+  ghost: { pattern: Pattern; px: number; py: number } | null;
+}
+
+export const MIN_ZOOM = 1 / 64;
+export const MAX_ZOOM = 16;
+
+/** Cells across and down: pinned by the config, or as many as cover a `width` x `height` canvas. */
+export const gridSize = (config: Config, width: number, height: number) =>
+  config.gridSize ?? { cols: Math.ceil(width / config.resolution), rows: Math.ceil(height / config.resolution) };
+
+/** Screen pixel size of one cell in the infinite universe. */
+export const cellSize = ({ config, viewport }: Scene) => config.resolution * viewport.zoom;
+
+export const screenToWorld = (scene: Scene, px: number, py: number) => {
+  const size = cellSize(scene);
+  return {
+    x: Math.floor(scene.viewport.x + (px - scene.width / 2) / size),
+    y: Math.floor(scene.viewport.y + (py - scene.height / 2) / size),
+  };
+};
+
+/** The 2D cell under a canvas point: a grid cell when bounded, a world cell when infinite. */
+export const screenToCell = (scene: Scene, px: number, py: number) =>
+  scene.config.universe === 'Infinite'
+    ? screenToWorld(scene, px, py)
+    : { x: Math.floor(px / scene.config.resolution), y: Math.floor(py / scene.config.resolution) };
+
+/** [x, y, state] of each pattern cell when stamped centered on the cell under (px, py). */
+export const stampCells = (scene: Scene, pattern: Pattern, px: number, py: number): [number, number, number][] => {
+  const { x, y } = screenToCell(scene, px, py);
+  const dx = x - Math.floor(pattern.width / 2);
+  const dy = y - Math.floor(pattern.height / 2);
+  const generations = scene.config.states2D > 2 && scene.config.universe !== 'Infinite';
+  return pattern.cells.map(([cx, cy], i) => [
+    cx + dx,
+    cy + dy,
+    generations ? Math.min(pattern.states?.[i] ?? 1, scene.config.states2D - 1) : 1,
+  ]);
+};
+
+/** Canvas position of the top-left corner of a cell, and the size of one cell. */
+export const cellToScreen = (scene: Scene, x: number, y: number) => {
+  if (scene.config.universe !== 'Infinite') {
+    const res = scene.config.resolution;
+    return { px: x * res, py: y * res, size: res };
+  }
+  const size = cellSize(scene);
+  return {
+    px: (x - scene.viewport.x) * size + scene.width / 2,
+    py: (y - scene.viewport.y) * size + scene.height / 2,
+    size,
+  };
+};
+
+const CENSUS_COLORS = {
+  StillLife: 'rgba(232, 121, 249, 0.9)',
+  Oscillator: 'rgba(250, 204, 21, 0.9)',
+  Spaceship: 'rgba(34, 211, 238, 0.9)',
+  Unknown: 'rgba(255, 255, 255, 0.25)',
+};
+
+/** Stable objects are outlined in magenta, oscillators in yellow and spaceships in cyan. */
+const drawCensus = (ctx: RenderContext, scene: Scene) => {
+  const { census, censusLabels } = scene;
+  if (!census) return;
+  ctx.lineWidth = 1;
+  ctx.font = '9px monospace';
+  ctx.textBaseline = 'bottom';
+  census.forEach(({ entry, x, y, width, height }) => {
+    const { px, py, size } = cellToScreen(scene, x, y);
+    const color = CENSUS_COLORS[entry?.kind ?? 'Unknown'];
+    ctx.strokeStyle = color;
+    ctx.strokeRect(Math.floor(px) - 1.5, Math.floor(py) - 1.5, width * size + 2, height * size + 2);
+    if (censusLabels && entry) {
+      ctx.fillStyle = color;
+      ctx.fillText(entry.name, Math.floor(px) - 1, Math.floor(py) - 3);
+    }
+  });
+};
+
+const drawGhost = (ctx: RenderContext, scene: Scene) => {
+  const { ghost } = scene;
+  if (!ghost) return;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  stampCells(scene, ghost.pattern, ghost.px, ghost.py).forEach(([x, y]) => {
+    const { px, py, size } = cellToScreen(scene, x, y);
+    ctx.fillRect(px, py, Math.max(1, size - 1), Math.max(1, size - 1));
+  });
+};
+
+/** Grid lines, census boxes and the stamp preview, drawn over the cells by either renderer. */
+export const drawOverlays = (ctx: RenderContext, scene: Scene) => {
+  drawGridLines(ctx, scene);
+  if (scene.config.mode !== '2D') return;
+  drawCensus(ctx, scene);
+  drawGhost(ctx, scene);
+};
+
+const drawInfinite = (ctx: RenderContext, scene: Scene) => {
+  const { config, width, height, cycleHue, hashlife, viewport } = scene;
+  if (!hashlife) return;
+  const size = cellSize(scene);
+  const x0 = viewport.x - width / 2 / size;
+  const y0 = viewport.y - height / 2 / size;
+  const gap = config.grid === 'Gap' && size >= 3 ? 1 : 0;
+
+  // HashLife keeps no ages, so every live cell is drawn as newborn.
+  ctx.fillStyle = getCellColor(config, cycleHue, 1);
+  hashlife.forEachBlock(x0, y0, x0 + width / size, y0 + height / size, 1 / size, (x, y, cells) => {
+    const px = Math.floor((x - x0) * size);
+    const py = Math.floor((y - y0) * size);
+    const extent = Math.max(1, cells * size - gap);
+    ctx.fillRect(px, py, extent, extent);
+  });
+};
+
+/** Mid grey reads on light and dark backgrounds alike. */
+const GRID_LINE_COLOR = 'rgba(128, 128, 128, 0.35)';
+
+/** Lines between cells when the grid style asks for them; too dense to see once cells shrink under 3 pixels. */
+const drawGridLines = (ctx: RenderContext, scene: Scene) => {
+  const { config, width, height } = scene;
+  if (config.grid !== 'Lines') return;
+  const infinite = config.mode === '2D' && config.universe === 'Infinite';
+  const size = infinite ? cellSize(scene) : config.resolution;
+  if (size < 3) return;
+  // The infinite grid scrolls, so its lines start from wherever the first cell boundary lands.
+  const origin = infinite ? cellToScreen(scene, 0, 0) : { px: 0, py: 0 };
+  const x0 = ((origin.px % size) + size) % size;
+  const y0 = ((origin.py % size) + size) % size;
+  ctx.strokeStyle = GRID_LINE_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = x0; x < width; x += size) {
+    ctx.moveTo(Math.floor(x) + 0.5, 0);
+    ctx.lineTo(Math.floor(x) + 0.5, height);
+  }
+  for (let y = y0; y < height; y += size) {
+    ctx.moveTo(0, Math.floor(y) + 0.5);
+    ctx.lineTo(width, Math.floor(y) + 0.5);
+  }
+  ctx.stroke();
+};
+
+/** Drawn size of a cell `res` pixels apart: a pixel short when the grid style leaves gaps. */
+const cellExtent = (config: Config, res: number) => (config.grid === 'Gap' ? res - 1 : res);
+
+/** The background at the opacity that fades one frame's worth of trails. */
+const backgroundFill = (config: Config) => `rgba(${hexToRgb(config.background).join(', ')}, ${1 - config.trails})`;
+
+// --- Colors ---
+
+/** 1D cell hue; multi-color rules step the hue once per state. */
+export const stateHue1D = (hue: number, state: number) => hue + (state - 1) * 60;
+
+/** Cycle mode sweeps a palette up and back down once per turn of the cycling hue. */
+const cycleTone = (cycleHue: number) => 1 - Math.abs(cycleHue / 180 - 1);
+
+/** Newborn cells sit at the top of a palette and slide down it as they age. */
+const ageTone = (age: number) => 1 - Math.log2(Math.min(age, MAX_AGE)) / Math.log2(MAX_AGE);
+
+/** Hue and lightness (percent) of a Life-like cell, starting from `hue` (or `cycleHue` in Cycle mode). */
+const shiftedHsl = (config: Config, hue: number, cycleHue: number, age: number, neighbors: number) => {
+  switch (config.colorMode) {
+    case 'Age':
+      return [(hue + age * 8) % 360, age === 1 ? 85 : Math.max(40, 70 - age)];
+    case 'Density':
+      return [(hue - neighbors * 25) % 360, 40 + neighbors * 5];
+    case 'Cycle':
+      return [cycleHue, 60];
+    default:
+      return [hue, 60];
+  }
+};
+
+/** `age` is the raw cell value: an age under Life-like rules, a state under Generations rules. */
+export const getCellColor = (config: Config, cycleHue: number, age: number, count: number = 0) => {
+  // Density colors are tuned for 8 neighbors; rescale wider neighborhoods onto that range.
+  const neighbors = config.mode === '2D' ? (count * 8) / neighborhoodSize(config.neighborhood2D) : count;
+  const generations = config.states2D > 2 && config.mode === '2D';
+  const decay = generations ? (age - 1) / (config.states2D - 1) : 0;
+
+  if (config.palette) {
+    const tone =
+      config.colorMode === 'Density' ? Math.min(1, neighbors / 8)
+      : config.colorMode === 'Cycle' ? cycleTone(cycleHue)
+      : generations ? 1 - decay
+      : config.colorMode === 'Age' ? ageTone(age)
+      : 1;
+    return paletteColor(config.palette, tone, generations ? 0.95 - decay * 0.5 : 0.9);
+  }
+
+  if (generations) {
+    // Generations: firing cells are brightest, decaying states drift in hue and fade out.
+    const base = config.colorMode === 'Cycle' ? cycleHue : config.colorMode === 'Density' ? config.hue - neighbors * 25 : config.hue;
+    const l = age === 1 ? 80 : 60 - decay * 30;
+    return `hsla(${(base + decay * 120 + 360) % 360}, 80%, ${l}%, ${0.95 - decay * 0.5})`;
+  }
+
+  const [h, l] = shiftedHsl(config, config.hue, cycleHue, age, neighbors);
+  return `hsla(${h}, 80%, ${l}%, 0.9)`;
+};
+
+/**
+ * A 1D cell in row `y` of the drawing, `age` rows old (1 for the newest) and with
+ * `count` live cells among its neighbors. Classic colors by state; the other modes
+ * shift from there the way they do in 2D.
+ */
+export const getRowColor = (config: Config, cycleHue: number, state: number, y: number, age: number, count: number) => {
+  const { colors, radius } = config.rule1D;
+  if (config.palette) {
+    const tone =
+      config.colorMode === 'Age' ? ageTone(age)
+      : config.colorMode === 'Density' ? count / (2 * radius)
+      : config.colorMode === 'Cycle' ? cycleTone(cycleHue)
+      : state / (colors - 1);
+    return paletteColor(config.palette, tone, 1);
+  }
+  if (config.colorMode === 'Classic') return `hsl(${stateHue1D(config.hue, state) + y * 0.2}, 80%, 60%)`;
+  const neighbors = (count * 8) / (2 * radius);
+  const [h, l] = shiftedHsl(config, stateHue1D(config.hue, state), stateHue1D(cycleHue, state), age, neighbors);
+  return `hsl(${h}, 80%, ${l}%)`;
+};
+
+/** Continuous cells fade in with their value; Age and Density shift hue by value and by kernel potential. */
+export const getFieldColor = (config: Config, cycleHue: number, value: number, potential: number) => {
+  if (config.palette) {
+    const tone =
+      config.colorMode === 'Density' ? Math.min(1, potential / (2 * config.lenia.mu))
+      : config.colorMode === 'Cycle' ? cycleTone(cycleHue)
+      : value;
+    return paletteColor(config.palette, tone, value);
+  }
+  let h = config.hue;
+  switch (config.colorMode) {
+    case 'Age':
+      h = config.hue + value * 120;
+      break;
+    case 'Density':
+      h = config.hue - potential * 300;
+      break;
+    case 'Cycle':
+      h = cycleHue;
+      break;
+    default:
+      break;
+  }
+  return `hsla(${(h + 360) % 360}, 80%, ${30 + value * 40}%, ${value})`;
+};
+
+export interface RowLayout {
+  /** Canvas row of rows[0], and its index in the whole drawing for the Classic hue drift. */
+  top: number;
+  first: number;
+  /** Rows in the whole drawing; the last one is the newest. */
+  total: number;
+  /** Pixels from one cell to the next, and the drawn size of each. */
+  size: number;
+  extent: number;
+  /** Dims older rows toward transparent, as the live view does. */
+  fade: boolean;
+}
+
+/** 1D rows, one per generation, top down. */
+export const drawRows = (ctx: RenderContext, config: Config, cycleHue: number, rows: ArrayLike<number>[], layout: RowLayout) => {
+  const { top, first, total, size, extent, fade } = layout;
+  const { radius } = config.rule1D;
+  rows.forEach((row, i) => {
+    const y = first + i;
+    ctx.globalAlpha = fade ? y / total : 1;
+    for (let x = 0; x < row.length; x++) {
+      const cell = row[x];
+      if (cell === 0) continue;
+      let count = 0;
+      if (config.colorMode === 'Density') {
+        for (let dx = -radius; dx <= radius; dx++) if (dx && row[x + dx] > 0) count++;
+      }
+      ctx.fillStyle = getRowColor(config, cycleHue, cell, y, total - y, count);
+      ctx.fillRect(x * size, top + i * size, extent, extent);
+    }
+  });
+  ctx.globalAlpha = 1;
+};
+
+export const draw = (ctx: RenderContext, scene: Scene) => {
+  const { config, width, height, cycleHue, life, elementary, lenia } = scene;
+  ctx.fillStyle = backgroundFill(config);
+  ctx.fillRect(0, 0, width, height);
+
+  const res = config.resolution;
+  const extent = cellExtent(config, res);
+
+  if (config.mode === '2D' && config.universe === 'Infinite') {
+    drawInfinite(ctx, scene);
+  } else if (config.mode === 'Continuous') {
+    if (!lenia) return;
+    const { cells, potential, cols } = lenia;
+    for (let i = 0; i < cells.length; i++) {
+      const value = cells[i];
+      if (value > 0.02) {
+        const x = i % cols;
+        const y = (i - x) / cols;
+        ctx.fillStyle = getFieldColor(config, cycleHue, value, potential[i]);
+        ctx.fillRect(x * res, y * res, extent, extent);
+      }
+    }
+  } else if (config.mode === '2D') {
+    if (!life) return;
+    const { cells, neighbors, cols } = life;
+    for (let i = 0; i < cells.length; i++) {
+      const age = cells[i];
+      if (age > 0) {
+        const x = i % cols;
+        const y = (i - x) / cols;
+        ctx.fillStyle = getCellColor(config, cycleHue, age, neighbors[i]);
+        ctx.fillRect(x * res, y * res, extent, extent);
+      }
+    }
+  } else {
+    const history = elementary?.history ?? [];
+    drawRows(ctx, config, cycleHue, history, { top: 0, first: 0, total: history.length, size: res, extent, fade: true });
+  }
+  drawOverlays(ctx, scene);
+};
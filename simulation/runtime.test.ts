@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { elementaryRule, MOORE, type StatsSample } from '../engine';
+import type { Config } from '../types';
+import type { SimulationCommand, SimulationEvent } from './protocol';
+import { createRuntime } from './runtime';
+
+const CONFIG: Config = {
+  mode: '2D',
+  rule1D: elementaryRule(110),
+  seed1D: { kind: 'Single', density: 0.5, pattern: '1', drawn: [] },
+  birth2D: [3],
+  survival2D: [2, 3],
+  states2D: 2,
+  neighborhood2D: MOORE,
+  lenia: { radius: 10, mu: 0.26, sigma: 0.036, dt: 0.1 },
+  universe: 'Bounded',
+  seed: 7,
+  gridSize: { cols: 40, rows: 30 },
+  density: 0.3,
+  boundary: 'Torus',
+  stepLog2: 0,
+  onSettle: 'Continue',
+  resolution: 8,
+  speed: 15,
+  hue: 180,
+  colorMode: 'Age',
+  palette: null,
+  background: '#000000',
+  grid: 'Gap',
+  trails: 0.3,
+};
+
+/** Runs `steps` generations one command at a time and returns the series as the UI would keep it. */
+const series = (config: Config, steps: number) => {
+  let samples: StatsSample[] = [];
+  const runtime = createRuntime((event: SimulationEvent) => {
+    if (event.type !== 'samples' || event.samples.length === 0) return;
+    const from = event.samples[0].generation;
+    samples = [...samples.filter(s => s.generation < from), ...event.samples];
+  });
+  runtime.handle({ type: 'init', width: 320, height: 240, config, running: false });
+  for (let i = 0; i < steps; i++) runtime.handle({ type: 'step', delta: 1 });
+  runtime.stop();
+  return samples;
+};
+
+describe('samples', () => {
+  it.each(['2D', '1D'] as const)('records every generation in %s', mode => {
+    const samples = series({ ...CONFIG, mode }, 25);
+    expect(samples.map(s => s.generation)).toEqual([...Array(26).keys()]);
+    samples.slice(1).forEach((s, i) => {
+      expect(s.births).not.toBeNull();
+      expect(s.population).toBe(samples[i].population + s.births! - s.deaths!);
+    });
+  });
+
+  it('keeps a light sample for each generation of a multi-generation step', () => {
+    let samples: StatsSample[] = [];
+    const runtime = createRuntime(event => {
+      if (event.type === 'samples') samples = [...samples, ...event.samples];
+    });
+    runtime.handle({ type: 'init', width: 320, height: 240, config: CONFIG, running: false });
+    samples = [];
+    runtime.handle({ type: 'step', delta: 10 });
+    runtime.stop();
+    expect(samples.map(s => s.generation)).toEqual([...Array(10).keys()].map(i => i + 1));
+  });
+});
+
+describe('requests', () => {
+  it('replies with an error when a request fails', () => {
+    const events: SimulationEvent[] = [];
+    const runtime = createRuntime(event => events.push(event));
+    runtime.handle({ type: 'init', width: 320, height: 240, config: CONFIG, running: false });
+    runtime.handle({ type: 'request', id: 3, name: 'nonsense', params: {} } as unknown as SimulationCommand);
+    runtime.stop();
+    expect(events.find(event => event.type === 'reply')).toEqual({ type: 'reply', id: 3, error: 'Unknown request "nonsense"' });
+  });
+});
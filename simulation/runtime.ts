@@ -0,0 +1,870 @@
+import type { Config } from '../types';
+import {
+  cellListSignature,
+  createCycleDetector,
+  createElementaryEngine,
+  createHashLifeEngine,
+  createLeniaEngine,
+  createLifeEngine,
+  createRandom,
+  emptyGrid,
+  formatRule,
+  gridCells,
+  gridSignature,
+  measureGrid,
+  sampleGrid,
+  takeCensus,
+  randomField,
+  randomGrid,
+  sameRule,
+  seedRow,
+  toSample,
+  type Cells,
+  type GridStats,
+  type RowSeed,
+  type RuleSpec,
+  type Settled,
+  type Signature,
+  type StatsSample,
+} from '../engine';
+import { normalizePattern, type Pattern } from '../patterns/formats';
+import type {
+  BrushTool,
+  CensusCount,
+  CensusView,
+  Rect,
+  RendererBackend,
+  RequestName,
+  SimulationCommand,
+  SimulationRequest,
+  SimulationEvent,
+  SimulationRequests,
+  SpacetimeDiagram,
+} from './protocol';
+import {
+  cellSize,
+  draw,
+  drawOverlays,
+  gridSize,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  screenToCell,
+  screenToWorld,
+  stampCells,
+  type RenderContext,
+  type Scene,
+} from './renderer';
+import { createTimeline, type TimelineEntry } from './timeline';
+import { createGlRenderer, type GlRenderer } from './webgl';
+
+const ruleFor = (config: Config): RuleSpec => ({
+  birth: config.birth2D,
+  survival: config.survival2D,
+  states: config.states2D,
+  neighborhood: config.neighborhood2D,
+});
+
+/** Configs arrive structured-cloned, so nested objects never compare equal by reference. */
+const sameRowSeed = (a: RowSeed, b: RowSeed) =>
+  a.kind === b.kind && a.density === b.density && a.pattern === b.pattern && a.drawn.join() === b.drawn.join();
+
+/** HashLife snapshots share nodes with the live tree, so each is charged for the nodes made since the one before. */
+const HASHLIFE_NODE_BYTES = 160;
+
+/** Bounded grids are copied every this many generations while running; the steps between replay from the copy. */
+const KEYFRAME_INTERVAL = 8;
+
+/** A replayed entry holds a closure and a few numbers. */
+const REPLAY_ENTRY_BYTES = 64;
+
+/** Jumping past the recorded end simulates forward for at most this long, so a typo can't hang the loop. */
+const SEEK_BUDGET_MS = 2000;
+
+/** Bigger infinite-universe patterns skip cycle detection and the census; surveying them every step would stall the loop. */
+const MAX_DETECTED_POPULATION = 100000;
+
+/** Chance that the spray tool brings each cell under it to life. */
+const SPRAY_DENSITY = 0.25;
+
+/** Bigger rectangle fills are ignored; zoomed far out, one drag can span millions of infinite-universe cells. */
+const MAX_FILL_CELLS = 1 << 20;
+
+/** Spacetime diagrams stop at this many cells; the replay and its image both scale with it. */
+const MAX_SPACETIME_CELLS = 1 << 25;
+
+/** While running, full stats and the buffered samples go out at most this often; measuring a big grid costs as much as stepping it. */
+const STATS_INTERVAL_MS = 100;
+
+/**
+ * Owns the engines, the render loop and the canvas. Runs inside the
+ * simulation worker, or on the main thread when OffscreenCanvas is missing.
+ */
+export const createRuntime = (emit: (event: SimulationEvent) => void) => {
+  let ctx: RenderContext | null = null;
+  let gl: GlRenderer | null = null;
+  let backend: RendererBackend = 'WebGL';
+  let running = false;
+  let lastUpdate = 0;
+  let frame = 0;
+  const scene: Scene = {
+    config: null!,
+    width: 0,
+    height: 0,
+    cycleHue: 0,
+    life: null,
+    elementary: null,
+    hashlife: null,
+    lenia: null,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    census: null,
+    censusLabels: false,
+    ghost: null,
+  };
+  /** Last cell of the brush stroke in progress. */
+  let brushFrom: { x: number; y: number } | null = null;
+  let censusView: CensusView = 'Off';
+  /** Frames still to send for the recording in progress. */
+  let recording = 0;
+  const timeline = createTimeline();
+  /** Last full copy recorded while running, and the HashLife node count at the last snapshot. */
+  let keyframe: TimelineEntry | null = null;
+  let recordedNodes = 0;
+  /** 2D cells from before the last step, kept in one reused buffer; births and deaths compare against them. */
+  let baseline: { cells: Uint8Array; generation: number } | null = null;
+  let lastMeasured = -Infinity;
+  /** Samples not yet sent to the UI, one per generation stepped. */
+  let samples: StatsSample[] = [];
+  const detector = createCycleDetector();
+  let settled: Settled | null = null;
+
+  const schedule = (callback: (time: number) => void) =>
+    typeof requestAnimationFrame === 'function'
+      ? requestAnimationFrame(callback)
+      : (setTimeout(() => callback(performance.now()), 16) as unknown as number);
+
+  const cancel = (handle: number) =>
+    typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(handle) : clearTimeout(handle);
+
+  const currentGeneration = () => {
+    const { config } = scene;
+    if (config.mode === 'Continuous') return scene.lenia?.generation ?? 0;
+    if (config.mode === '1D') return scene.elementary?.generation ?? 0;
+    return (config.universe === 'Infinite' ? scene.hashlife : scene.life)?.generation ?? 0;
+  };
+
+  const measure = (): GridStats | null => {
+    const { config } = scene;
+    if (config.mode === 'Continuous') return null;
+    if (config.mode === '1D') {
+      const history = scene.elementary?.history;
+      if (!history) return null;
+      const row = history[history.length - 1];
+      return measureGrid(row, row.length, history.length > 1 ? history[history.length - 2] : null);
+    }
+    if (config.universe === 'Infinite') {
+      const engine = scene.hashlife;
+      if (!engine) return null;
+      const { population } = engine;
+      const bounds = engine.bounds();
+      return {
+        population,
+        births: null,
+        deaths: null,
+        density: bounds ? population / (bounds.width * bounds.height) : 0,
+        ages: [],
+        bounds,
+      };
+    }
+    const engine = scene.life;
+    if (!engine) return null;
+    const previous = baseline?.generation === engine.generation - 1 ? baseline.cells : null;
+    return measureGrid(
+      engine.cells,
+      engine.cols,
+      previous,
+      // Generations cells hold states, not ages; only state 1 is alive.
+      config.states2D > 2 ? { alive: value => value === 1 } : { ages: true },
+    );
+  };
+
+  /** Live 2D cells as a list; null when there are too many to survey every step. */
+  const liveCells = (): Cells | null => {
+    const { config } = scene;
+    if (config.mode !== '2D') return null;
+    const cells: Cells = [];
+    if (config.universe === 'Infinite') {
+      const engine = scene.hashlife;
+      if (!engine || engine.population > MAX_DETECTED_POPULATION) return null;
+      engine.forEachBlock(-Infinity, -Infinity, Infinity, Infinity, 0, (x, y) => cells.push([x, y]));
+    } else {
+      const engine = scene.life;
+      if (!engine) return null;
+      return gridCells(engine.cells, engine.cols, config.states2D > 2);
+    }
+    return cells;
+  };
+
+  const survey = () => {
+    const objects = censusView === 'Off' ? null : liveCells();
+    const census = objects && takeCensus(objects, ruleFor(scene.config));
+    scene.census = censusView === 'Boxes' || censusView === 'Labels' ? census : null;
+    scene.censusLabels = censusView === 'Labels';
+    if (censusView === 'Off') return;
+    let counts: CensusCount[] | null = null;
+    if (census) {
+      const tally = new Map<string, CensusCount>();
+      census.forEach(({ entry }) => {
+        const key = entry?.name ?? '';
+        const count = tally.get(key) ?? { entry, count: 0 };
+        count.count++;
+        tally.set(key, count);
+      });
+      counts = [...tally.values()].sort((a, b) => b.count - a.count);
+    }
+    emit({ type: 'census', counts });
+  };
+
+  const signature = (): Signature | null => {
+    const { config } = scene;
+    if (config.mode !== '2D') return null;
+    if (config.universe === 'Infinite') {
+      const engine = scene.hashlife;
+      if (!engine) return null;
+      const { population } = engine;
+      // Hypersteps skip generations, so only extinction can be told for sure.
+      if (population === 0) return { hash: '', x: 0, y: 0, population };
+      const cells = engine.stepLog2 > 0 ? null : liveCells();
+      return cells && cellListSignature(cells);
+    }
+    const engine = scene.life;
+    if (!engine) return null;
+    // Life-like cells hold growing ages, so only whether they're alive must repeat; Generations states must match exactly.
+    return gridSignature(engine.cells, engine.cols, config.states2D > 2, config.boundary === 'Torus');
+  };
+
+  /** Feeds the current generation to the detector and reports when the verdict changes. */
+  const detect = () => {
+    const current = signature();
+    const next = current ? detector.observe(currentGeneration(), current) : settled;
+    if (next === settled) return;
+    settled = next;
+    emit({ type: 'settled', settled });
+  };
+
+  /** The run's course changed, so earlier generations no longer predict later ones. */
+  const redetect = () => {
+    // Nor does the generation before an edit or a jump tell what was born into this one.
+    if (baseline) baseline.generation = -1;
+    detector.reset();
+    if (settled) {
+      settled = null;
+      emit({ type: 'settled', settled });
+    }
+    detect();
+  };
+
+  /** The light sample for the generation just stepped to; continuous mode has nothing to count. */
+  const sample = () => {
+    const { config } = scene;
+    const generation = currentGeneration();
+    if (config.mode === '1D') {
+      const history = scene.elementary?.history;
+      if (!history) return;
+      samples.push(sampleGrid(generation, history[history.length - 1], history.length > 1 ? history[history.length - 2] : null));
+    } else if (config.mode === '2D' && config.universe === 'Infinite') {
+      const population = scene.hashlife?.population ?? 0;
+      samples.push({ generation, population, births: null, deaths: null, density: null, width: null, height: null });
+    } else if (config.mode === '2D' && scene.life) {
+      const previous = baseline?.generation === generation - 1 ? baseline.cells : null;
+      samples.push(sampleGrid(generation, scene.life.cells, previous, config.states2D > 2));
+    }
+  };
+
+  /** `throttled` holds back stats and samples until STATS_INTERVAL_MS has passed, for the steady stream while running. */
+  const publish = (throttled = false) => {
+    const generation = currentGeneration();
+    emit({ type: 'generation', generation });
+    const now = performance.now();
+    if (!throttled || now - lastMeasured >= STATS_INTERVAL_MS) {
+      lastMeasured = now;
+      const stats = measure();
+      // The full measure stands in for the light sample of the same generation.
+      if (samples[samples.length - 1]?.generation === generation) samples.pop();
+      if (stats) samples.push(toSample(generation, stats));
+      emit({ type: 'samples', samples });
+      samples = [];
+      emit({ type: 'stats', generation, stats });
+    }
+    survey();
+    emit({
+      type: 'timeline',
+      first: timeline.first,
+      last: timeline.last,
+      canUndo: timeline.canUndo,
+      canRedo: timeline.canRedo,
+    });
+  };
+
+  /**
+   * A step within KEYFRAME_INTERVAL of the last keyframe is recorded as a
+   * replay of it; anything else is copied and becomes the new keyframe.
+   * `settle` puts the keyframe's rule and boundary in place for the replay
+   * and returns what puts the current ones back.
+   */
+  const keyframed = (
+    generation: number,
+    stepped: boolean,
+    copy: () => TimelineEntry,
+    advance: (generations: number) => void,
+    settle: () => () => void,
+  ): TimelineEntry => {
+    const from = keyframe;
+    if (stepped && from && generation > from.generation && generation - from.generation < KEYFRAME_INTERVAL) {
+      return {
+        generation,
+        bytes: REPLAY_ENTRY_BYTES,
+        base: from,
+        restore: () => {
+          const unsettle = settle();
+          from.restore();
+          advance(generation - from.generation);
+          unsettle();
+        },
+      };
+    }
+    keyframe = copy();
+    return keyframe;
+  };
+
+  /** The current state as a timeline entry; 1D keeps its own history of rows and isn't recorded. */
+  const snapshotEntry = (stepped: boolean): TimelineEntry | null => {
+    const { config } = scene;
+    if (config.mode === 'Continuous' && scene.lenia) {
+      const engine = scene.lenia;
+      const { params, boundary } = engine;
+      return keyframed(
+        engine.generation,
+        stepped,
+        () => {
+          const snapshot = engine.snapshot();
+          return { generation: snapshot.generation, bytes: snapshot.cells.byteLength, restore: () => engine.restore(snapshot) };
+        },
+        generations => engine.step(generations),
+        () => {
+          const current = { params: engine.params, boundary: engine.boundary };
+          Object.assign(engine, { params, boundary });
+          return () => Object.assign(engine, current);
+        },
+      );
+    }
+    if (config.mode !== '2D') return null;
+    if (config.universe === 'Infinite' && scene.hashlife) {
+      const engine = scene.hashlife;
+      const snapshot = engine.snapshot();
+      const bytes = (engine.nodes - recordedNodes) * HASHLIFE_NODE_BYTES;
+      recordedNodes = engine.nodes;
+      return { generation: snapshot.generation, bytes, restore: () => engine.restore(snapshot) };
+    }
+    if (config.universe === 'Bounded' && scene.life) {
+      const engine = scene.life;
+      const { rule, boundary } = engine;
+      return keyframed(
+        engine.generation,
+        stepped,
+        () => {
+          const snapshot = engine.snapshot();
+          return { generation: snapshot.generation, bytes: snapshot.cells.byteLength, restore: () => engine.restore(snapshot) };
+        },
+        generations => engine.step(generations),
+        () => {
+          const current = { rule: engine.rule, boundary: engine.boundary };
+          Object.assign(engine, { rule, boundary });
+          return () => Object.assign(engine, current);
+        },
+      );
+    }
+    return null;
+  };
+
+  /**
+   * `continues` folds the change into the entry it amends, e.g. the rest of a
+   * drag stroke. Only `stepped` states can be replayed from a keyframe.
+   */
+  const record = (continues = false, stepped = false) => {
+    const entry = snapshotEntry(stepped);
+    if (!entry) return;
+    if (continues) timeline.amend(entry);
+    else timeline.push(entry);
+  };
+
+  const initGrid = () => {
+    const { config, width, height } = scene;
+    baseline = null;
+    const { cols, rows } = gridSize(config, width, height);
+    const random = createRandom(config.seed);
+
+    if (config.mode === '2D' && config.universe === 'Infinite') {
+      // Seed the same screen-sized soup as the bounded grid, centered on the origin.
+      const soup = randomGrid(cols, rows, config.density, random);
+      const seed: [number, number][] = [];
+      soup.forEach((alive, i) => {
+        if (alive) seed.push([(i % cols) - Math.floor(cols / 2), Math.floor(i / cols) - Math.floor(rows / 2)]);
+      });
+      scene.hashlife = createHashLifeEngine({
+        rule: ruleFor(config),
+        seed,
+        stepLog2: config.stepLog2,
+      });
+      scene.viewport = { x: 0, y: 0, zoom: 1 };
+    } else if (config.mode === 'Continuous') {
+      scene.lenia = createLeniaEngine({
+        cols,
+        rows,
+        params: config.lenia,
+        boundary: config.boundary,
+        seed: randomField(cols, rows, config.lenia.radius, random),
+      });
+    } else if (config.mode === '2D') {
+      scene.life = createLifeEngine({
+        cols,
+        rows,
+        rule: ruleFor(config),
+        boundary: config.boundary,
+        seed: randomGrid(cols, rows, config.density, random),
+      });
+    } else {
+      scene.elementary = createElementaryEngine({
+        cols,
+        rule: config.rule1D,
+        boundary: config.boundary,
+        historyLimit: rows,
+        seed: seedRow(cols, config.seed1D, config.rule1D.colors, random),
+      });
+    }
+    timeline.clear();
+    keyframe = null;
+    recordedNodes = 0;
+    record();
+    redetect();
+    publish();
+    ctx?.clearRect(0, 0, width, height);
+    gl?.clear();
+  };
+
+  const step = () => {
+    const { config } = scene;
+    if (config.mode === '2D' && config.universe === 'Infinite') {
+      const engine = scene.hashlife;
+      if (!engine) return;
+      if (!sameRule(engine.rule, ruleFor(config))) engine.rule = ruleFor(config);
+      engine.stepLog2 = config.stepLog2;
+      engine.step();
+    } else if (config.mode === 'Continuous') {
+      const engine = scene.lenia;
+      if (!engine) return;
+      engine.params = config.lenia;
+      engine.step();
+    } else if (config.mode === '2D') {
+      const engine = scene.life;
+      if (!engine) return;
+      if (!sameRule(engine.rule, ruleFor(config))) engine.rule = ruleFor(config);
+      if (baseline?.cells.length !== engine.cells.length) baseline = { cells: new Uint8Array(engine.cells.length), generation: -1 };
+      baseline.cells.set(engine.cells);
+      baseline.generation = engine.generation;
+      engine.step();
+    } else {
+      const engine = scene.elementary;
+      if (!engine) return;
+      engine.rule = config.rule1D;
+      engine.historyLimit = gridSize(config, scene.width, scene.height).rows;
+      engine.step();
+    }
+    scene.cycleHue = (scene.cycleHue + 1) % 360;
+    sample();
+    record(false, true);
+    detect();
+  };
+
+  const restore = (entry: TimelineEntry | null) => {
+    // Steps from here on no longer follow from the last keyframe.
+    keyframe = null;
+    entry?.restore();
+    redetect();
+    publish();
+  };
+
+  /** Restores the recorded state at `generation`, simulating forward when it lies past the end. */
+  const seek = (generation: number) => {
+    const entry = timeline.seek(generation);
+    if (!entry) return;
+    keyframe = null;
+    entry.restore();
+    redetect();
+    const deadline = performance.now() + SEEK_BUDGET_MS;
+    while (!timeline.canRedo && currentGeneration() < generation && performance.now() < deadline) step();
+    publish();
+  };
+
+  /** Moves `delta` generations; 1D can only go forward. */
+  const stepBy = (delta: number) => {
+    if (scene.config.mode === '1D') {
+      for (let i = 0; i < delta; i++) step();
+      publish();
+    } else {
+      seek(Math.max(0, currentGeneration() + delta));
+    }
+  };
+
+  /** Starts WebGL when asked for and available; reports what's actually drawing. */
+  const setBackend = (requested: RendererBackend) => {
+    backend = requested;
+    gl = backend === 'WebGL' && ctx ? gl ?? createGlRenderer(scene.width, scene.height) : null;
+    emit({ type: 'renderer', backend: gl ? 'WebGL' : 'Canvas2D' });
+  };
+
+  /** WebGL draws the scenes it handles into its own canvas, which is copied in under the overlays. */
+  const render = () => {
+    if (!ctx) return;
+    if (gl?.draw(scene)) {
+      ctx.globalCompositeOperation = 'copy';
+      ctx.drawImage(gl.canvas, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      drawOverlays(ctx, scene);
+    } else {
+      draw(ctx, scene);
+    }
+  };
+
+  const animate = (time: number) => {
+    const threshold = 1000 / (scene.config.speed + 1);
+    let stepped = false;
+    if ((running || recording > 0) && time - lastUpdate > threshold) {
+      step();
+      publish(true);
+      lastUpdate = time;
+      stepped = true;
+    }
+    render();
+    if (stepped && recording > 0 && ctx) {
+      recording--;
+      emit({ type: 'frame', image: ctx.getImageData(0, 0, scene.width, scene.height), remaining: recording });
+    }
+    frame = schedule(animate);
+  };
+
+  const setConfig = (config: Config, reseed = false) => {
+    const previous = scene.config;
+    scene.config = config;
+    // Replays step under the keyframe's settings, so a chain of them never spans a change.
+    keyframe = null;
+    if (scene.life) scene.life.boundary = config.boundary;
+    if (scene.elementary) scene.elementary.boundary = config.boundary;
+    if (scene.lenia) scene.lenia.boundary = config.boundary;
+    if (
+      reseed ||
+      previous.mode !== config.mode ||
+      previous.resolution !== config.resolution ||
+      previous.universe !== config.universe ||
+      previous.seed !== config.seed ||
+      previous.gridSize?.cols !== config.gridSize?.cols ||
+      previous.gridSize?.rows !== config.gridSize?.rows ||
+      (config.mode === '1D' && !sameRowSeed(previous.seed1D, config.seed1D)) ||
+      (config.mode === '2D' && previous.density !== config.density)
+    ) {
+      initGrid();
+    } else if (
+      config.mode === '2D' &&
+      (previous.boundary !== config.boundary || formatRule(ruleFor(previous)) !== formatRule(ruleFor(config)))
+    ) {
+      redetect();
+    }
+  };
+
+  /** Undo history, detection and the UI all follow every edit. */
+  const edited = (continues = false) => {
+    record(continues);
+    redetect();
+    publish();
+  };
+
+  const toggle = (px: number, py: number, continues = false) => {
+    const { config } = scene;
+    if (config.mode === 'Continuous') {
+      const x = Math.floor(px / config.resolution);
+      const y = Math.floor(py / config.resolution);
+      scene.lenia?.deposit(x, y, config.lenia.radius);
+    } else if (config.mode !== '2D') {
+      return;
+    } else if (config.universe === 'Infinite') {
+      const { x, y } = screenToWorld(scene, px, py);
+      scene.hashlife?.toggle(x, y);
+    } else {
+      scene.life?.toggle(Math.floor(px / config.resolution), Math.floor(py / config.resolution));
+    }
+    edited(continues);
+  };
+
+  const paint = (cells: [number, number, number][]) => {
+    if (scene.config.universe === 'Infinite') {
+      cells.forEach(([x, y, state]) => scene.hashlife?.set(x, y, state > 0 ? 1 : 0));
+    } else {
+      scene.life?.paint(cells);
+    }
+  };
+
+  const brush = (px: number, py: number, tool: BrushTool, size: number, continues = false) => {
+    if (scene.config.mode !== '2D') return;
+    const to = screenToCell(scene, px, py);
+    const from = continues && brushFrom ? brushFrom : to;
+    brushFrom = to;
+    const radius = (size - 1) / 2;
+    const cells: [number, number, number][] = [];
+    // Walk the segment one cell at a time so fast drags leave no gaps.
+    const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+    for (let s = 0; s <= steps; s++) {
+      const cx = Math.round(from.x + ((to.x - from.x) * s) / Math.max(1, steps));
+      const cy = Math.round(from.y + ((to.y - from.y) * s) / Math.max(1, steps));
+      for (let dy = -Math.ceil(radius); dy <= radius; dy++) {
+        for (let dx = -Math.ceil(radius); dx <= radius; dx++) {
+          if (dx * dx + dy * dy > radius * radius + radius) continue;
+          if (tool === 'Spray' && Math.random() > SPRAY_DENSITY) continue;
+          cells.push([cx + dx, cy + dy, tool === 'Erase' ? 0 : 1]);
+        }
+      }
+    }
+    paint(cells);
+    edited(continues);
+  };
+
+  const stamp = (px: number, py: number, pattern: Pattern) => {
+    if (scene.config.mode !== '2D') return;
+    paint(stampCells(scene, pattern, px, py));
+    edited();
+  };
+
+  const fill = (region: Rect) => {
+    if (scene.config.mode !== '2D') return;
+    const from = screenToCell(scene, region.x, region.y);
+    const to = screenToCell(scene, region.x + region.width, region.y + region.height);
+    if ((to.x - from.x + 1) * (to.y - from.y + 1) > MAX_FILL_CELLS) return;
+    const cells: [number, number, number][] = [];
+    for (let y = from.y; y <= to.y; y++) {
+      for (let x = from.x; x <= to.x; x++) cells.push([x, y, 1]);
+    }
+    paint(cells);
+    edited();
+  };
+
+  const zoom = (factor: number, px: number, py: number) => {
+    const { viewport } = scene;
+    // Keep the world point under (px, py) fixed while scaling.
+    const before = cellSize(scene);
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, viewport.zoom * factor));
+    const after = scene.config.resolution * next;
+    viewport.x += (px - scene.width / 2) * (1 / before - 1 / after);
+    viewport.y += (py - scene.height / 2) * (1 / before - 1 / after);
+    viewport.zoom = next;
+  };
+
+  const place = (pattern: Pattern) => {
+    const { config } = scene;
+    if (config.mode !== '2D') return;
+    if (config.universe === 'Infinite') {
+      const dx = Math.floor(pattern.width / 2);
+      const dy = Math.floor(pattern.height / 2);
+      scene.hashlife?.reset(pattern.cells.map(([x, y]) => [x - dx, y - dy]));
+      scene.viewport = { x: 0, y: 0, zoom: scene.viewport.zoom };
+    } else if (scene.life) {
+      const { cols, rows } = scene.life;
+      const grid = emptyGrid(cols, rows);
+      const dx = Math.floor((cols - pattern.width) / 2);
+      const dy = Math.floor((rows - pattern.height) / 2);
+      const generations = config.states2D > 2;
+      pattern.cells.forEach(([x, y], i) => {
+        const gx = x + dx;
+        const gy = y + dy;
+        const state = generations ? Math.min(pattern.states?.[i] ?? 1, config.states2D - 1) : 1;
+        if (gx >= 0 && gx < cols && gy >= 0 && gy < rows) grid[gy * cols + gx] = state;
+      });
+      scene.life.reset(grid);
+    }
+    // Placing restarts the count at 0, so it starts a fresh history too.
+    timeline.clear();
+    keyframe = null;
+    recordedNodes = 0;
+    record();
+    redetect();
+    publish();
+  };
+
+  const capture = (region?: Rect): Pattern => {
+    const { config } = scene;
+    const cells: [number, number][] = [];
+    const states: number[] = [];
+    if (config.mode !== '2D') return normalizePattern(cells);
+
+    if (config.universe === 'Infinite') {
+      const engine = scene.hashlife;
+      if (!engine) return normalizePattern(cells);
+      const from = region ? screenToWorld(scene, region.x, region.y) : { x: -Infinity, y: -Infinity };
+      const to = region
+        ? screenToWorld(scene, region.x + region.width, region.y + region.height)
+        : { x: Infinity, y: Infinity };
+      engine.forEachBlock(from.x, from.y, to.x + 1, to.y + 1, 0, (x, y) => cells.push([x, y]));
+    } else if (scene.life) {
+      const { cols, rows, cells: grid } = scene.life;
+      const res = config.resolution;
+      const x0 = region ? Math.max(0, Math.floor(region.x / res)) : 0;
+      const y0 = region ? Math.max(0, Math.floor(region.y / res)) : 0;
+      const x1 = region ? Math.min(cols - 1, Math.floor((region.x + region.width) / res)) : cols - 1;
+      const y1 = region ? Math.min(rows - 1, Math.floor((region.y + region.height) / res)) : rows - 1;
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const value = grid[y * cols + x];
+          if (value > 0) {
+            cells.push([x, y]);
+            // Ages are display-only; only Generations states belong in a pattern.
+            states.push(config.states2D > 2 ? value : 1);
+          }
+        }
+      }
+    }
+    return normalizePattern(cells, states.some(s => s > 1) ? { states } : {});
+  };
+
+  const spacetime = (generations: number): SpacetimeDiagram => {
+    const { config, width, height } = scene;
+    const { cols } = gridSize(config, width, height);
+    if (config.mode !== '1D') return { cols, cells: new Uint8Array(0) };
+    const rows = Math.min(generations, Math.floor(MAX_SPACETIME_CELLS / cols) - 1) + 1;
+    // Same first row as initGrid draws from the same seed.
+    const engine = createElementaryEngine({
+      cols,
+      rule: config.rule1D,
+      boundary: config.boundary,
+      historyLimit: 1,
+      seed: seedRow(cols, config.seed1D, config.rule1D.colors, createRandom(config.seed)),
+    });
+    const cells = new Uint8Array(cols * rows);
+    for (let y = 0; y < rows; y++) {
+      if (y > 0) engine.step();
+      cells.set(engine.history[engine.history.length - 1], y * cols);
+    }
+    return { cols, cells };
+  };
+
+  const answer = (request: SimulationRequest): SimulationRequests[RequestName]['result'] => {
+    switch (request.name) {
+      case 'capture':
+        return capture(request.params.region);
+      case 'frame':
+        return ctx?.getImageData(0, 0, scene.width, scene.height) ?? null;
+      case 'spacetime':
+        return spacetime(request.params.generations);
+      default:
+        throw new Error(`Unknown request "${(request as SimulationRequest).name}"`);
+    }
+  };
+
+  return {
+    /** Main-thread fallback passes its own context instead of an OffscreenCanvas. */
+    handle: (command: SimulationCommand, context?: RenderContext) => {
+      switch (command.type) {
+        case 'init':
+          ctx = context ?? command.canvas?.getContext('2d') ?? null;
+          scene.config = command.config;
+          scene.width = command.width;
+          scene.height = command.height;
+          running = command.running;
+          setBackend(backend);
+          initGrid();
+          if (!frame) frame = schedule(animate);
+          break;
+        case 'config':
+          setConfig(command.config);
+          break;
+        case 'resize':
+          scene.width = command.width;
+          scene.height = command.height;
+          if (ctx) {
+            ctx.canvas.width = command.width;
+            ctx.canvas.height = command.height;
+          }
+          gl?.resize(command.width, command.height);
+          initGrid();
+          break;
+        case 'running':
+          running = command.running;
+          // Catch the panel up on whatever the throttle held back.
+          if (!running && scene.config) publish();
+          break;
+        case 'reset':
+          if (command.config) setConfig(command.config, true);
+          else initGrid();
+          break;
+        case 'toggle':
+          toggle(command.px, command.py, command.continues);
+          break;
+        case 'brush':
+          brush(command.px, command.py, command.tool, command.size, command.continues);
+          break;
+        case 'stamp':
+          stamp(command.px, command.py, command.pattern);
+          break;
+        case 'fill':
+          fill(command.region);
+          break;
+        case 'ghost':
+          scene.ghost = command.pattern && { pattern: command.pattern, px: command.px, py: command.py };
+          break;
+        case 'undo':
+          restore(timeline.undo());
+          break;
+        case 'redo':
+          restore(timeline.redo());
+          break;
+        case 'step':
+          stepBy(command.delta);
+          break;
+        case 'seek':
+          seek(command.generation);
+          break;
+        case 'pan':
+          scene.viewport.x -= command.dx / cellSize(scene);
+          scene.viewport.y -= command.dy / cellSize(scene);
+          break;
+        case 'zoom':
+          zoom(command.factor, command.px, command.py);
+          break;
+        case 'recenter':
+          scene.viewport = { x: 0, y: 0, zoom: 1 };
+          break;
+        case 'census':
+          censusView = command.view;
+          survey();
+          if (censusView === 'Off') emit({ type: 'census', counts: null });
+          break;
+        case 'place':
+          place(command.pattern);
+          break;
+        case 'renderer':
+          setBackend(command.backend);
+          break;
+        case 'record':
+          recording = Math.max(0, command.generations);
+          break;
+        case 'request':
+          try {
+            emit({ type: 'reply', id: command.id, result: answer(command) });
+          } catch (err) {
+            emit({ type: 'reply', id: command.id, error: err instanceof Error ? err.message : String(err) });
+          }
+          break;
+      }
+    },
+    stop: () => {
+      cancel(frame);
+      frame = 0;
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createTimeline, type TimelineEntry } from './timeline';
+
+const keyframe = (generation: number, bytes = 100): TimelineEntry => ({ generation, bytes, restore: () => {} });
+const replay = (generation: number, base: TimelineEntry): TimelineEntry => ({ generation, bytes: 1, base, restore: () => {} });
+
+/** Keyframes of 100 bytes every 4 generations, each followed by 3 one-byte replays of it. */
+const record = (budget: number, generations: number) => {
+  const timeline = createTimeline(1000, budget);
+  let base = keyframe(0);
+  timeline.push(base);
+  for (let generation = 1; generation < generations; generation++) {
+    if (generation % 4 === 0) timeline.push((base = keyframe(generation)));
+    else timeline.push(replay(generation, base));
+  }
+  return timeline;
+};
+
+describe('timeline', () => {
+  it('trims a keyframe together with the replays that depend on it', () => {
+    // Three groups of 103 bytes fit; a fourth pushes the oldest out whole.
+    const timeline = record(320, 16);
+    expect(timeline.first).toBe(4);
+    expect(timeline.last).toBe(15);
+    // Every entry still recorded restores from a keyframe that is recorded too.
+    expect(timeline.seek(0)?.generation).toBe(4);
+  });
+
+  it('keeps a keyframe while the newest entry still replays from it', () => {
+    const timeline = record(50, 3);
+    expect(timeline.first).toBe(0);
+    expect(timeline.last).toBe(2);
+  });
+});
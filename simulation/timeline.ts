@@ -0,0 +1,101 @@
+// --- Timeline: a bounded history of engine snapshots for undo and scrubbing ---
+
+export interface TimelineEntry {
+  readonly generation: number;
+  /** Rough memory held by the snapshot, counted against the budget. */
+  readonly bytes: number;
+  /** The earlier entry this one replays from; it holds that entry's memory, so the two are trimmed together. */
+  readonly base?: TimelineEntry;
+  readonly restore: () => void;
+}
+
+/**
+ * A linear history with a cursor at the state on screen. Generations never
+ * decrease along it; an edit adds an entry for the same generation.
+ */
+export interface Timeline {
+  /** Oldest and newest recorded generations, 0 when empty. */
+  readonly first: number;
+  readonly last: number;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Records a new state after the cursor, dropping anything that was undone. */
+  push: (entry: TimelineEntry) => void;
+  /** Replaces the entry at the cursor if it is for the same generation, so a drag stroke undoes in one go. */
+  amend: (entry: TimelineEntry) => void;
+  undo: () => TimelineEntry | null;
+  redo: () => TimelineEntry | null;
+  /** Moves to the newest entry at or before `generation`, or to the oldest one. */
+  seek: (generation: number) => TimelineEntry | null;
+  clear: () => void;
+}
+
+export const MAX_TIMELINE_ENTRIES = 1000;
+export const TIMELINE_BUDGET_BYTES = 64 * 1024 * 1024;
+
+export const createTimeline = (
+  maxEntries = MAX_TIMELINE_ENTRIES,
+  budget = TIMELINE_BUDGET_BYTES,
+): Timeline => {
+  let entries: TimelineEntry[] = [];
+  let cursor = -1;
+  let bytes = 0;
+
+  /**
+   * Forgets the oldest entries once over either limit, always keeping the
+   * newest. An entry goes together with the ones replaying from it, so no
+   * kept entry holds memory the budget no longer counts.
+   */
+  const trim = () => {
+    let drop = 0;
+    while (entries.length - drop > 1 && (entries.length - drop > maxEntries || bytes > budget)) {
+      let end = drop + 1;
+      while (end < entries.length && entries[end].base === entries[drop]) end++;
+      if (end === entries.length) break;
+      for (; drop < end; drop++) bytes -= entries[drop].bytes;
+    }
+    if (drop === 0) return;
+    entries = entries.slice(drop);
+    cursor = Math.max(0, cursor - drop);
+  };
+
+  const timeline: Timeline = {
+    get first() { return entries[0]?.generation ?? 0; },
+    get last() { return entries[entries.length - 1]?.generation ?? 0; },
+    get canUndo() { return cursor > 0; },
+    get canRedo() { return cursor < entries.length - 1; },
+    push: (entry) => {
+      entries.splice(cursor + 1).forEach(dropped => (bytes -= dropped.bytes));
+      entries.push(entry);
+      bytes += entry.bytes;
+      cursor = entries.length - 1;
+      trim();
+    },
+    amend: (entry) => {
+      const current = entries[cursor];
+      if (!current || current.generation !== entry.generation) {
+        timeline.push(entry);
+        return;
+      }
+      entries.splice(cursor + 1).forEach(dropped => (bytes -= dropped.bytes));
+      entries[cursor] = entry;
+      bytes += entry.bytes - current.bytes;
+      trim();
+    },
+    undo: () => (timeline.canUndo ? entries[--cursor] : null),
+    redo: () => (timeline.canRedo ? entries[++cursor] : null),
+    seek: (generation) => {
+      if (entries.length === 0) return null;
+      let index = entries.length - 1;
+      while (index > 0 && entries[index].generation > generation) index--;
+      cursor = index;
+      return entries[cursor];
+    },
+    clear: () => {
+      entries = [];
+      cursor = -1;
+      bytes = 0;
+    },
+  };
+  return timeline;
+};
@@ -0,0 +1,256 @@
+// --- WebGL2 renderer for the bounded 2D grid: cells upload as textures, a fragment shader colors them ---
+
+import { MAX_AGE, neighborhoodSize } from '../engine';
+import { hexToRgb, paletteTable, PALETTE_STEPS } from '../palettes';
+import type { ColorMode, Palette } from '../types';
+import type { Scene } from './renderer';
+
+export interface GlRenderer {
+  /** Its own canvas; the visible one copies it in and draws the overlays on top. */
+  readonly canvas: OffscreenCanvas | HTMLCanvasElement;
+  /** Fades the last frame by the trails setting and draws the grid over it; false for scenes it can't draw. */
+  draw: (scene: Scene) => boolean;
+  resize: (width: number, height: number) => void;
+  clear: () => void;
+}
+
+const VERTEX_SHADER = `#version 300 es
+// One triangle that covers the whole viewport.
+void main() {
+  vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+const FADE_SHADER = `#version 300 es
+precision mediump float;
+uniform float fade;
+uniform vec3 background;
+out vec4 color;
+void main() {
+  color = vec4(background * fade, fade);
+}`;
+
+/** Mirrors getCellColor, palettes included; colors come out premultiplied, for source-over blending like Canvas2D's. */
+const CELL_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp usampler2D;
+
+uniform usampler2D cells;
+uniform usampler2D neighbors;
+uniform sampler2D palette;
+uniform bool usePalette;
+uniform int resolution;
+uniform int gap;
+uniform int canvasHeight;
+uniform int colorMode;
+uniform int states;
+uniform float hue;
+uniform float cycleHue;
+uniform float neighborScale;
+out vec4 color;
+
+const int AGE = 1;
+const int DENSITY = 2;
+const int CYCLE = 3;
+const float MAX_AGE = ${MAX_AGE}.0;
+
+// CSS hsl(): hue in degrees, wrapping; saturation and lightness clamped to 0..1.
+vec3 hsl(float h, float s, float l) {
+  l = clamp(l, 0.0, 1.0);
+  vec3 k = mod(vec3(0.0, 8.0, 4.0) + h / 30.0, 12.0);
+  float a = s * min(l, 1.0 - l);
+  return l - a * clamp(min(k - 3.0, 9.0 - k), -1.0, 1.0);
+}
+
+void main() {
+  // Canvas rows run top down; the framebuffer's run bottom up.
+  ivec2 pixel = ivec2(int(gl_FragCoord.x), canvasHeight - 1 - int(gl_FragCoord.y));
+  ivec2 cell = pixel / resolution;
+  ivec2 size = textureSize(cells, 0);
+  // With the Gap grid style, cells leave a pixel free on their right and bottom edges.
+  ivec2 inside = pixel - cell * resolution;
+  if (cell.x >= size.x || cell.y >= size.y || inside.x >= resolution - gap || inside.y >= resolution - gap) discard;
+
+  float age = float(texelFetch(cells, cell, 0).r);
+  if (age == 0.0) discard;
+  float count = colorMode == DENSITY ? float(texelFetch(neighbors, cell, 0).r) * neighborScale : 0.0;
+
+  vec4 rgba;
+  if (usePalette) {
+    float decay = states > 2 ? (age - 1.0) / float(states - 1) : 0.0;
+    float tone =
+      colorMode == DENSITY ? min(1.0, count / 8.0)
+      : colorMode == CYCLE ? 1.0 - abs(cycleHue / 180.0 - 1.0)
+      : states > 2 ? 1.0 - decay
+      : colorMode == AGE ? 1.0 - log2(min(age, MAX_AGE)) / log2(MAX_AGE)
+      : 1.0;
+    int index = int(round(clamp(tone, 0.0, 1.0) * ${PALETTE_STEPS - 1}.0));
+    rgba = vec4(texelFetch(palette, ivec2(index, 0), 0).rgb, states > 2 ? 0.95 - decay * 0.5 : 0.9);
+  } else if (states > 2) {
+    float base = colorMode == CYCLE ? cycleHue : colorMode == DENSITY ? hue - count * 25.0 : hue;
+    float decay = (age - 1.0) / float(states - 1);
+    float l = age == 1.0 ? 0.8 : 0.6 - decay * 0.3;
+    rgba = vec4(hsl(base + decay * 120.0, 0.8, l), 0.95 - decay * 0.5);
+  } else {
+    float h = hue;
+    float l = 0.6;
+    if (colorMode == AGE) {
+      h = hue + age * 8.0;
+      l = age == 1.0 ? 0.85 : max(0.4, 0.7 - age / 100.0);
+    } else if (colorMode == DENSITY) {
+      h = hue - count * 25.0;
+      l = 0.4 + count * 0.05;
+    } else if (colorMode == CYCLE) {
+      h = cycleHue;
+    }
+    rgba = vec4(hsl(h, 0.8, l), 0.9);
+  }
+  color = vec4(rgba.rgb * rgba.a, rgba.a);
+}`;
+
+const COLOR_MODES: Record<ColorMode, number> = { Classic: 0, Age: 1, Density: 2, Cycle: 3 };
+
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const compile = (gl: WebGL2RenderingContext, vertex: string, fragment: string) => {
+  const program = gl.createProgram();
+  [
+    [gl.VERTEX_SHADER, vertex],
+    [gl.FRAGMENT_SHADER, fragment],
+  ].forEach(([type, source]) => {
+    const shader = gl.createShader(type as number)!;
+    gl.shaderSource(shader, source as string);
+    gl.compileShader(shader);
+    gl.attachShader(program, shader);
+  });
+  gl.linkProgram(program);
+  return gl.getProgramParameter(program, gl.LINK_STATUS) ? program : null;
+};
+
+/** Integer texture of one channel per cell, resized as the grid is. */
+const createCellTexture = (gl: WebGL2RenderingContext, internalFormat: number, type: number) => {
+  const texture = gl.createTexture();
+  let cols = 0;
+  let rows = 0;
+  return {
+    texture,
+    upload: (data: Uint8Array | Uint16Array, width: number, height: number) => {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      if (width !== cols || height !== rows) {
+        cols = width;
+        rows = height;
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, gl.RED_INTEGER, type, data);
+      } else {
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width, height, gl.RED_INTEGER, type, data);
+      }
+    },
+  };
+};
+
+/** Null when WebGL2 is unavailable or the shaders don't compile; callers keep drawing with Canvas2D. */
+export const createGlRenderer = (width: number, height: number): GlRenderer | null => {
+  let canvas: OffscreenCanvas | HTMLCanvasElement;
+  let gl: WebGL2RenderingContext | null;
+  try {
+    canvas = createCanvas(width, height);
+    // Trails fade the previous frame, so it has to survive compositing.
+    gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true, antialias: false }) as WebGL2RenderingContext | null;
+  } catch {
+    return null;
+  }
+  if (!gl) return null;
+  const fade = compile(gl, VERTEX_SHADER, FADE_SHADER);
+  const paint = compile(gl, VERTEX_SHADER, CELL_SHADER);
+  if (!fade || !paint) return null;
+
+  const cells = createCellTexture(gl, gl.R8UI, gl.UNSIGNED_BYTE);
+  const neighbors = createCellTexture(gl, gl.R16UI, gl.UNSIGNED_SHORT);
+  const lut = gl.createTexture();
+  let lutPalette: Palette | null = null;
+  const uniform = (name: string) => gl.getUniformLocation(paint, name);
+  const u = {
+    cells: uniform('cells'),
+    neighbors: uniform('neighbors'),
+    palette: uniform('palette'),
+    usePalette: uniform('usePalette'),
+    resolution: uniform('resolution'),
+    gap: uniform('gap'),
+    canvasHeight: uniform('canvasHeight'),
+    colorMode: uniform('colorMode'),
+    states: uniform('states'),
+    hue: uniform('hue'),
+    cycleHue: uniform('cycleHue'),
+    neighborScale: uniform('neighborScale'),
+  };
+  const fadeUniform = gl.getUniformLocation(fade, 'fade');
+  const backgroundUniform = gl.getUniformLocation(fade, 'background');
+
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  // Attribute-free drawing still wants a vertex array bound.
+  gl.bindVertexArray(gl.createVertexArray());
+
+  return {
+    canvas,
+    draw: (scene) => {
+      const { config, life, width, height, cycleHue } = scene;
+      if (config.mode !== '2D' || config.universe !== 'Bounded' || !life || gl.isContextLost()) return false;
+
+      gl.viewport(0, 0, width, height);
+      gl.useProgram(fade);
+      gl.uniform1f(fadeUniform, 1 - config.trails);
+      gl.uniform3fv(backgroundUniform, hexToRgb(config.background).map(c => c / 255));
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+      gl.useProgram(paint);
+      gl.activeTexture(gl.TEXTURE0);
+      cells.upload(life.cells, life.cols, life.rows);
+      gl.uniform1i(u.cells, 0);
+      gl.activeTexture(gl.TEXTURE1);
+      // Counts only matter for Density; otherwise any complete integer texture will do.
+      if (config.colorMode === 'Density') neighbors.upload(life.neighbors, life.cols, life.rows);
+      else gl.bindTexture(gl.TEXTURE_2D, cells.texture);
+      gl.uniform1i(u.neighbors, 1);
+      gl.activeTexture(gl.TEXTURE2);
+      gl.bindTexture(gl.TEXTURE_2D, lut);
+      // The palette's sampled table, uploaded again only when the palette changes.
+      if (config.palette && config.palette !== lutPalette) {
+        lutPalette = config.palette;
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        const { rgba } = paletteTable(config.palette);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, PALETTE_STEPS, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, rgba);
+      }
+      gl.uniform1i(u.palette, 2);
+      gl.uniform1i(u.usePalette, config.palette ? 1 : 0);
+      gl.uniform1i(u.resolution, config.resolution);
+      gl.uniform1i(u.gap, config.grid === 'Gap' ? 1 : 0);
+      gl.uniform1i(u.canvasHeight, height);
+      gl.uniform1i(u.colorMode, COLOR_MODES[config.colorMode]);
+      gl.uniform1i(u.states, config.states2D);
+      gl.uniform1f(u.hue, config.hue);
+      gl.uniform1f(u.cycleHue, cycleHue);
+      gl.uniform1f(u.neighborScale, 8 / neighborhoodSize(config.neighborhood2D));
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      return true;
+    },
+    resize: (w, h) => {
+      canvas.width = w;
+      canvas.height = h;
+    },
+    clear: () => {
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    },
+  };
+};
@@ -0,0 +1,9 @@
+import type { SimulationCommand, SimulationEvent } from './protocol';
+import { createRuntime } from './runtime';
+
+const scope = self as unknown as Worker;
+const runtime = createRuntime(event => scope.postMessage(event));
+
+scope.onmessage = (e: MessageEvent<SimulationCommand>) => runtime.handle(e.data);
+scope.onmessageerror = () =>
+  scope.postMessage({ type: 'error', message: 'The simulation worker could not read a command.' } satisfies SimulationEvent);
@@ -0,0 +1,63 @@
+// --- Shared Types ---
+
+import type { Boundary, LeniaParams, Neighborhood, RowSeed, WolframRule } from './engine';
+
+/** `Continuous` runs Lenia-style automata with real-valued cells. */
+export type Mode = '1D' | '2D' | 'Continuous';
+export type ColorMode = 'Classic' | 'Age' | 'Density' | 'Cycle';
+export type Universe = 'Bounded' | 'Infinite';
+/** What a click or drag on the 2D grid does. */
+export type Tool = 'Toggle' | 'Draw' | 'Erase' | 'Rect' | 'Spray' | 'Stamp';
+/** One color of a gradient: `at` runs from 0 to 1, `color` is `#rrggbb`. */
+export interface ColorStop {
+  at: number;
+  color: string;
+}
+
+/** A gradient cells are colored from, in place of shifting `hue`. */
+export interface Palette {
+  name: string;
+  stops: ColorStop[];
+}
+
+/** Cells drawn a pixel short to leave a gap, full size with lines between them, or seamless. */
+export type GridStyle = 'Gap' | 'Lines' | 'None';
+/** What happens once a 2D run dies out or settles into a cycle. */
+export type SettlePolicy = 'Continue' | 'Pause' | 'Reseed' | 'NextPreset';
+
+export interface Config {
+  mode: Mode;
+  rule1D: WolframRule;
+  /** First row of the 1D spacetime diagram. */
+  seed1D: RowSeed;
+  birth2D: number[];
+  survival2D: number[];
+  /** Generations state count; 2 for plain Life-like rules. */
+  states2D: number;
+  /** Cells counted around each cell; anything but radius-1 Moore needs a bounded universe. */
+  neighborhood2D: Neighborhood;
+  /** Continuous mode kernel and growth function. */
+  lenia: LeniaParams;
+  universe: Universe;
+  /** PRNG seed for random initial conditions; the same seed replays the same run. */
+  seed: number;
+  /** Grid size in cells, pinned by a permalink so its seed replays on any window; null fits the window. */
+  gridSize: { cols: number; rows: number } | null;
+  /** 2D random fill: chance that a cell starts alive. */
+  density: number;
+  /** Bounded universe edges, in every mode. */
+  boundary: Boundary;
+  /** Infinite universe only: each step jumps 2^stepLog2 generations. */
+  stepLog2: number;
+  onSettle: SettlePolicy;
+  resolution: number;
+  speed: number;
+  hue: number;
+  colorMode: ColorMode;
+  /** Null colors cells by `hue`. */
+  palette: Palette | null;
+  /** `#rrggbb` behind the cells; trails fade toward it. */
+  background: string;
+  grid: GridStyle;
+  trails: number; 
+}